@@ -0,0 +1,130 @@
+import { Grid, CellType } from './grid';
+
+export const CAPTURE_REVEAL_TIME = 300; // ms for a capture to spread from the line to its far side
+export const BURST_TIME = 600; // ms a death burst lasts
+export const WIPE_TIME = 400; // ms for a new level to be uncovered
+const BURST_PARTICLES = 24;
+const BURST_SPEED = 0.03; // cells per ms, at most
+
+export function isFillCell(cell: CellType): boolean {
+  return cell === CellType.FILLED || cell === CellType.SLOW_FILLED;
+}
+
+// Cells of one capture in the order they appear: outward from the line, one ring of neighbours per step
+export class CaptureReveal {
+  private cells: number[];
+  private rings: number[]; // ring of each cell, never decreasing
+  private started: number;
+  private next: number = 0;
+
+  constructor(grid: Grid, captured: number[], started: number) {
+    [this.cells, this.rings] = orderFromLine(grid, captured);
+    this.started = started;
+  }
+
+  // Cells due by now that were not returned before
+  take(now: number): number[] {
+    const progress = Math.min(1, (now - this.started) / CAPTURE_REVEAL_TIME);
+    const lastRing = this.rings[this.rings.length - 1] ?? 0;
+    let end = this.next;
+    while (end < this.cells.length && this.rings[end] <= progress * lastRing) {
+      end++;
+    }
+    return this.takeUntil(end);
+  }
+
+  // Everything still hidden, to end the animation early
+  finish(): number[] {
+    return this.takeUntil(this.cells.length);
+  }
+
+  isDone(): boolean {
+    return this.next === this.cells.length;
+  }
+
+  private takeUntil(end: number): number[] {
+    const due = this.cells.slice(this.next, end);
+    this.next = end;
+    return due;
+  }
+}
+
+// Breadth-first from the captured cells touching a line; cells the search cannot reach come last
+function orderFromLine(grid: Grid, captured: number[]): [number[], number[]] {
+  const width = grid.getWidth();
+  const height = grid.getHeight();
+  const pending = new Uint8Array(width * height);
+  captured.forEach((index) => (pending[index] = 1));
+
+  const isLine = (x: number, y: number) => {
+    const cell = grid.getCell(x, y);
+    return cell === CellType.LINE || cell === CellType.SLOW_LINE;
+  };
+
+  const order: number[] = [];
+  const rings: number[] = [];
+  for (const index of captured) {
+    const x = index % width;
+    const y = (index - x) / width;
+    if (
+      (x > 0 && isLine(x - 1, y)) ||
+      (x < width - 1 && isLine(x + 1, y)) ||
+      (y > 0 && isLine(x, y - 1)) ||
+      (y < height - 1 && isLine(x, y + 1))
+    ) {
+      pending[index] = 0;
+      order.push(index);
+      rings.push(0);
+    }
+  }
+
+  for (let head = 0; head < order.length; head++) {
+    const index = order[head];
+    const x = index % width;
+    const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+    for (const neighbour of neighbours) {
+      if (neighbour >= 0 && neighbour < pending.length && pending[neighbour]) {
+        pending[neighbour] = 0;
+        order.push(neighbour);
+        rings.push(rings[head] + 1);
+      }
+    }
+  }
+
+  const lastRing = rings[rings.length - 1] ?? 0;
+  for (const index of captured) {
+    if (pending[index]) {
+      pending[index] = 0;
+      order.push(index);
+      rings.push(lastRing);
+    }
+  }
+  return [order, rings];
+}
+
+export interface Particle {
+  x: number; // cells
+  y: number;
+  vx: number; // cells per ms
+  vy: number;
+}
+
+export interface Burst {
+  particles: Particle[];
+  started: number;
+}
+
+// Particles flying out of a cell in every direction
+export function createBurst(x: number, y: number, started: number, random: () => number = Math.random): Burst {
+  const particles = Array.from({ length: BURST_PARTICLES }, (_, i) => {
+    const angle = ((i + random()) / BURST_PARTICLES) * Math.PI * 2;
+    const speed = BURST_SPEED * (0.3 + 0.7 * random());
+    return { x: x + 0.5, y: y + 0.5, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed };
+  });
+  return { particles, started };
+}
+
+// Whether the user asked the system for less motion
+export function prefersReducedMotion(): boolean {
+  return typeof matchMedia === 'function' && matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { AsciiRenderer, renderAscii } from './ascii';
+import { Grid, CellType } from './grid';
+import { createPlayer, PlayerMode } from './player';
+
+describe('ASCII renderer', () => {
+  const setup = () => {
+    const grid = new Grid(12, 10);
+    grid.setLine(6, 8);
+    grid.setLine(6, 7);
+    grid.setCell(2, 2, CellType.FILLED);
+    grid.setCell(3, 2, CellType.SLOW_FILLED);
+    const player = { ...createPlayer(grid), y: 7, mode: PlayerMode.DRAW };
+    const qix = [{ x: 8, y: 3, dx: 1, dy: 1, trail: [] }];
+    const sparx = [{ x: 0, y: 4, direction: 0, clockwise: true }];
+    return { grid, player, qix, sparx };
+  };
+
+  it('should print the board and everything on it as characters', () => {
+    const { grid, player, qix, sparx } = setup();
+
+    expect(renderAscii(grid, [player], qix, sparx, [{ x: 6, y: 8 }])).toBe(
+      [
+        '============',
+        '=..........=',
+        '=.#%.......=',
+        '=.......Q..=',
+        'S..........=',
+        '=..........=',
+        '=..........=',
+        '=.....@....=',
+        '=.....!....=',
+        '============',
+      ].join('\n'),
+    );
+  });
+
+  it('should shrink big boards, keeping the most important character of each block', () => {
+    const { grid, player, qix, sparx } = setup();
+
+    expect(renderAscii(grid, [player], qix, sparx, [], 2)).toBe(['======', '=%..Q=', 'S....=', '=..@.=', '===*=='].join('\n'));
+  });
+
+  it('should keep the HUD, board and overlay of the latest frame', () => {
+    const { grid, player } = setup();
+    const screens: string[] = [];
+    const renderer = new AsciiRenderer({ write: (screen) => screens.push(screen) });
+
+    renderer.updateUI(12.345, 2, [3], 1500);
+    renderer.render(grid, [player], [], [], []);
+    renderer.showOverlay({ type: 'gameOver', score: 1500, highScores: [] });
+
+    const lines = renderer.toString().split('\n');
+    expect(lines[0]).toBe('Coverage: 12.3%  Level: 2  Lives: 3  Score: 1500');
+    expect(lines).toHaveLength(1 + 10 + 1);
+    expect(lines[11]).toBe('*** GAME OVER - final score 1500 ***');
+    expect(screens, 'Every change should be written out').toHaveLength(2);
+
+    renderer.showOverlay(null);
+    expect(renderer.toString()).not.toContain('GAME OVER');
+  });
+});
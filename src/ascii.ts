@@ -0,0 +1,144 @@
+import { Grid, CellType, Point } from './grid';
+import { Player } from './player';
+import { Qix } from './qix';
+import { Sparx } from './sparx';
+import { GameRenderer, Overlay, markCursor, gameOverHeadline } from './renderer';
+import { formatHighScore } from './highscores';
+import { PowerUp, PowerUpType } from './powerups';
+
+const CELL_CHARS: Record<CellType, string> = {
+  [CellType.EMPTY]: '.',
+  [CellType.FILLED]: '#',
+  [CellType.BORDER]: '=',
+  [CellType.LINE]: '*',
+  [CellType.SLOW_LINE]: '~',
+  [CellType.SLOW_FILLED]: '%',
+};
+
+const PLAYER_CHARS = ['@', '&']; // player 1, player 2
+const QIX_CHAR = 'Q';
+const SPARX_CHAR = 'S';
+const FUSE_CHAR = '!';
+const POWER_UP_CHARS: Record<PowerUpType, string> = { life: '+', speed: '>', shield: 'o', fill: '$' };
+
+// When several cells share one character, the earliest in this list wins
+const CHAR_PRIORITY = `${PLAYER_CHARS.join('')}${QIX_CHAR}${SPARX_CHAR}${FUSE_CHAR}${Object.values(POWER_UP_CHARS).join('')}*~=%#.`;
+
+// The board as text, one line per row. With a scale above 1 each character stands for a
+// scale x scale block of cells, so big boards fit in a terminal. Captures look the same whoever owns them.
+export function renderAscii(
+  grid: Grid,
+  players: ReadonlyArray<Player | null> = [],
+  qix: Qix[] = [],
+  sparx: Sparx[] = [],
+  fuses: ReadonlyArray<Point> = [],
+  scale: number = 1,
+  powerUps: ReadonlyArray<PowerUp> = [],
+): string {
+  const rows: string[][] = [];
+  for (let y = 0; y < grid.getHeight(); y++) {
+    const row: string[] = [];
+    for (let x = 0; x < grid.getWidth(); x++) {
+      row.push(CELL_CHARS[grid.getCell(x, y)]);
+    }
+    rows.push(row);
+  }
+
+  const place = (point: Point, char: string) => {
+    if (rows[point.y]?.[point.x] !== undefined) {
+      rows[point.y][point.x] = char;
+    }
+  };
+  powerUps.forEach((powerUp) => place(powerUp, POWER_UP_CHARS[powerUp.type]));
+  fuses.forEach((fuse) => place(fuse, FUSE_CHAR));
+  sparx.forEach((s) => place(s, SPARX_CHAR));
+  qix.forEach((q) => place(q, QIX_CHAR));
+  players.forEach((player, index) => player && place(player, PLAYER_CHARS[index]));
+
+  if (scale <= 1) {
+    return rows.map((row) => row.join('')).join('\n');
+  }
+
+  const lines: string[] = [];
+  for (let top = 0; top < rows.length; top += scale) {
+    let line = '';
+    for (let left = 0; left < rows[top].length; left += scale) {
+      let best = '.';
+      for (let y = top; y < Math.min(top + scale, rows.length); y++) {
+        for (let x = left; x < Math.min(left + scale, rows[y].length); x++) {
+          if (CHAR_PRIORITY.indexOf(rows[y][x]) < CHAR_PRIORITY.indexOf(best)) {
+            best = rows[y][x];
+          }
+        }
+      }
+      line += best;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+export interface AsciiRendererOptions {
+  scale?: number; // cells per character along each side
+  write?: (screen: string) => void; // called with the whole screen after every change
+}
+
+// Text renderer: keeps the latest screen (HUD, board, overlay) for tests and terminals
+export class AsciiRenderer implements GameRenderer {
+  private scale: number;
+  private write: (screen: string) => void;
+  private hud: string = '';
+  private board: string = '';
+  private overlay: string = '';
+
+  constructor(options: AsciiRendererOptions = {}) {
+    this.scale = options.scale ?? 1;
+    this.write = options.write ?? (() => {});
+  }
+
+  render(
+    grid: Grid,
+    players: ReadonlyArray<Player | null>,
+    qix: Qix[],
+    sparx: Sparx[],
+    fuses: ReadonlyArray<Point>,
+    powerUps: ReadonlyArray<PowerUp> = [],
+  ): void {
+    this.board = renderAscii(grid, players, qix, sparx, fuses, this.scale, powerUps);
+    this.write(this.toString());
+  }
+
+  updateUI(coverage: number, level: number, lives: ReadonlyArray<number>, score: number, owned?: ReadonlyArray<number>): void {
+    this.hud = `Coverage: ${coverage.toFixed(1)}%  Level: ${level}  Lives: ${lives.join('/')}  Score: ${score}`;
+    if (owned) {
+      this.hud += `  Owned: ${owned.map((share) => `${share.toFixed(1)}%`).join('/')}`;
+    }
+  }
+
+  showOverlay(overlay: Overlay | null): void {
+    this.overlay = overlay ? `*** ${overlayLine(overlay)} ***` : '';
+    if (overlay?.type === 'gameOver') {
+      this.overlay = [this.overlay, ...overlay.highScores.map((entry, i) => formatHighScore(entry, i + 1))].join('\n');
+    }
+    this.write(this.toString());
+  }
+
+  toString(): string {
+    return [this.hud, this.board, this.overlay].filter((part) => part !== '').join('\n');
+  }
+}
+
+function overlayLine(overlay: Overlay): string {
+  switch (overlay.type) {
+    case 'title':
+      return 'QIX - press Enter to start';
+    case 'paused':
+      return 'PAUSED - press P to resume';
+    case 'levelComplete':
+      return `LEVEL ${overlay.level} COMPLETE - coverage ${overlay.coverage.toFixed(1)}%`;
+    case 'initials':
+      return `NEW HIGH SCORE ${overlay.score} - initials ${markCursor(overlay.initials, overlay.cursor)}`;
+    case 'gameOver':
+      return `${gameOverHeadline(overlay.winner)} - final score ${overlay.score}`;
+  }
+}
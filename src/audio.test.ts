@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { SoundEffects, AUDIO_SETTINGS_KEY, DEFAULT_AUDIO_SETTINGS } from './audio';
+import { EventBus } from './events';
+import { GameEvents } from './simulation';
+import { DrawSpeed } from './player';
+import { MemoryStorage } from './storage';
+
+describe('SoundEffects', () => {
+  // Just enough of an AudioContext to see which notes were played
+  const fakeContext = () => {
+    const notes: number[] = [];
+    const param = () => ({ value: 0, setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() });
+    const context = {
+      currentTime: 0,
+      state: 'running',
+      destination: {},
+      createGain: () => ({ gain: param(), connect: vi.fn() }),
+      createOscillator: () => ({
+        type: 'sine',
+        frequency: { ...param(), setValueAtTime: (value: number) => notes.push(value) },
+        connect: vi.fn(),
+        start: vi.fn(),
+        stop: vi.fn(),
+      }),
+    };
+    return { notes, createContext: () => context as unknown as AudioContext };
+  };
+
+  const emitEverything = (events: EventBus<GameEvents>): void => {
+    events.emit('drawStep', { player: 0, x: 1, y: 1, speed: DrawSpeed.FAST });
+    events.emit('shapeCaptured', { player: 0, cells: 100, lineCells: 10, coverageDelta: 1, coverage: 5, points: 1000 });
+    events.emit('lifeLost', { player: 0, cause: 'qix', lives: 2, x: 50, y: 90 });
+    events.emit('levelCompleted', { level: 1, coverage: 80, bonus: 6000 });
+    events.emit('gameOver', { score: 7000, level: 2, totalCoverage: 85, winner: null });
+  };
+
+  it('should do nothing without Web Audio', () => {
+    expect(typeof AudioContext, 'Suite should run without Web Audio').toBe('undefined');
+    const events = new EventBus<GameEvents>();
+    new SoundEffects({ storage: null }).attach(events);
+
+    expect(() => emitEverything(events)).not.toThrow();
+  });
+
+  it('should raise the capture sound with the size of the capture', () => {
+    const { notes, createContext } = fakeContext();
+    const sound = new SoundEffects({ storage: null, createContext });
+
+    sound.playCapture(2);
+    sound.playCapture(40);
+
+    expect(notes[1], 'Bigger capture should start higher').toBeGreaterThan(notes[0]);
+  });
+
+  it('should stay silent when muted and keep the settings', () => {
+    const storage = new MemoryStorage();
+    const { notes, createContext } = fakeContext();
+    const sound = new SoundEffects({ storage, createContext });
+    const events = new EventBus<GameEvents>();
+    const detach = sound.attach(events);
+
+    sound.setVolume(0.8);
+    sound.toggleMute();
+    emitEverything(events);
+    expect(notes, 'Muted sounds should not be played').toEqual([]);
+
+    sound.setMuted(false);
+    detach();
+    emitEverything(events);
+    expect(notes, 'Detached sounds should not be played').toEqual([]);
+
+    expect(new SoundEffects({ storage }).getSettings()).toEqual({ volume: 0.8, muted: false });
+    storage.setItem(AUDIO_SETTINGS_KEY, '{"volume":7}');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(new SoundEffects({ storage }).getSettings(), 'Bad settings fall back to the defaults').toEqual(DEFAULT_AUDIO_SETTINGS);
+    warn.mockRestore();
+  });
+});
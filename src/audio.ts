@@ -0,0 +1,189 @@
+import { EventBus } from './events';
+import { GameEvents } from './simulation';
+import { DrawSpeed } from './player';
+import { KeyValueStorage, getLocalStorage } from './storage';
+
+export interface AudioSettings {
+  volume: number; // 0 to 1
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: Readonly<AudioSettings> = { volume: 0.5, muted: false };
+export const AUDIO_SETTINGS_KEY = 'qix.audio';
+
+// Anything sounds can follow: a Game, or the bus a Simulation reports to
+export type GameEventSource = Pick<EventBus<GameEvents>, 'on'>;
+
+// Returns null where Web Audio is unavailable
+export type AudioContextFactory = () => AudioContext | null;
+
+const createAudioContext: AudioContextFactory = () => (typeof AudioContext === 'undefined' ? null : new AudioContext());
+
+// Saved settings, or the defaults when nothing usable is stored
+export function loadAudioSettings(storage: KeyValueStorage | null): AudioSettings {
+  const json = storage?.getItem(AUDIO_SETTINGS_KEY);
+  if (!json) {
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+  try {
+    return parseAudioSettings(JSON.parse(json));
+  } catch (error) {
+    console.warn('Ignoring saved audio settings:', error);
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+}
+
+export function parseAudioSettings(data: unknown): AudioSettings {
+  const settings = data as Partial<Record<keyof AudioSettings, unknown>> | null;
+  if (typeof settings !== 'object' || settings === null) {
+    throw new Error('Audio settings must be an object');
+  }
+  if (typeof settings.volume !== 'number' || !(settings.volume >= 0 && settings.volume <= 1)) {
+    throw new Error('Audio settings volume must be a number from 0 to 1');
+  }
+  if (typeof settings.muted !== 'boolean') {
+    throw new Error('Audio settings muted must be a boolean');
+  }
+  return { volume: settings.volume, muted: settings.muted };
+}
+
+export interface SoundEffectsOptions {
+  storage?: KeyValueStorage | null; // where volume and mute are kept; defaults to localStorage
+  createContext?: AudioContextFactory;
+}
+
+// Synthesized sound effects for game events; every method is a no-op without Web Audio.
+// The AudioContext is only created for the first sound, since browsers keep it suspended until the page is used.
+export class SoundEffects {
+  private settings: AudioSettings;
+  private storage: KeyValueStorage | null;
+  private createContext: AudioContextFactory;
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private unavailable: boolean = false;
+
+  constructor(options: SoundEffectsOptions = {}) {
+    this.storage = options.storage === undefined ? getLocalStorage() : options.storage;
+    this.createContext = options.createContext ?? createAudioContext;
+    this.settings = loadAudioSettings(this.storage);
+  }
+
+  // Play sounds for a game's events; returns a function that stops listening
+  attach(source: GameEventSource): () => void {
+    const unsubscribe = [
+      source.on('drawStep', ({ speed }) => this.playDrawStep(speed)),
+      source.on('shapeCaptured', ({ coverageDelta }) => this.playCapture(coverageDelta)),
+      source.on('lifeLost', () => this.playLifeLost()),
+      source.on('levelCompleted', () => this.playLevelComplete()),
+      source.on('gameOver', () => this.playGameOver()),
+    ];
+    return () => unsubscribe.forEach((off) => off());
+  }
+
+  getSettings(): AudioSettings {
+    return { ...this.settings };
+  }
+
+  setVolume(volume: number): void {
+    this.settings.volume = Math.min(1, Math.max(0, volume));
+    this.applySettings();
+  }
+
+  setMuted(muted: boolean): void {
+    this.settings.muted = muted;
+    this.applySettings();
+  }
+
+  toggleMute(): void {
+    this.setMuted(!this.settings.muted);
+  }
+
+  // A tick per cell of line; slow lines tick lower
+  playDrawStep(speed: DrawSpeed): void {
+    this.tone({ type: 'square', from: speed === DrawSpeed.SLOW ? 330 : 660, duration: 0.02, gain: 0.05 });
+  }
+
+  // Rising sweep that starts higher the more of the board was taken
+  playCapture(coverageDelta: number): void {
+    const from = captureFrequency(coverageDelta);
+    this.tone({ type: 'triangle', from, to: from * 2, duration: 0.25, gain: 0.3 });
+  }
+
+  playLifeLost(): void {
+    this.tone({ type: 'sawtooth', from: 440, to: 60, duration: 0.5, gain: 0.3 });
+  }
+
+  // Major arpeggio
+  playLevelComplete(): void {
+    [523, 659, 784, 1047].forEach((from, i) => this.tone({ type: 'square', from, duration: 0.12, delay: i * 0.12, gain: 0.15 }));
+  }
+
+  // Falling notes
+  playGameOver(): void {
+    [392, 330, 262, 196].forEach((from, i) => this.tone({ type: 'triangle', from, duration: 0.3, delay: i * 0.3, gain: 0.3 }));
+  }
+
+  private applySettings(): void {
+    if (this.master && this.context) {
+      this.master.gain.setValueAtTime(this.masterGain(), this.context.currentTime);
+    }
+    try {
+      this.storage?.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Saving audio settings failed:', error);
+    }
+  }
+
+  private masterGain(): number {
+    return this.settings.muted ? 0 : this.settings.volume;
+  }
+
+  private getContext(): AudioContext | null {
+    if (!this.context && !this.unavailable) {
+      this.context = this.createContext();
+      this.unavailable = this.context === null;
+      if (this.context) {
+        this.master = this.context.createGain();
+        this.master.gain.value = this.masterGain();
+        this.master.connect(this.context.destination);
+      }
+    }
+    if (this.context?.state === 'suspended') {
+      void this.context.resume();
+    }
+    return this.context;
+  }
+
+  // One oscillator note, optionally gliding from one frequency to another, fading out to avoid clicks
+  private tone(note: { type: OscillatorType; from: number; to?: number; duration: number; delay?: number; gain: number }): void {
+    if (this.settings.muted) {
+      return;
+    }
+    const context = this.getContext();
+    if (!context || !this.master) {
+      return;
+    }
+
+    const start = context.currentTime + (note.delay ?? 0);
+    const end = start + note.duration;
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    oscillator.type = note.type;
+    oscillator.frequency.setValueAtTime(note.from, start);
+    if (note.to !== undefined) {
+      oscillator.frequency.exponentialRampToValueAtTime(note.to, end);
+    }
+    envelope.gain.setValueAtTime(note.gain, start);
+    envelope.gain.exponentialRampToValueAtTime(0.001, end);
+
+    oscillator.connect(envelope);
+    envelope.connect(this.master);
+    oscillator.start(start);
+    oscillator.stop(end);
+  }
+}
+
+// 220 Hz for a sliver, up to 1020 Hz for half the board or more
+export function captureFrequency(coverageDelta: number): number {
+  return 220 + Math.min(Math.max(coverageDelta, 0), 50) * 16;
+}
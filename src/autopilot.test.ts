@@ -0,0 +1,58 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Autopilot, runSoak, formatSoakReport } from './autopilot';
+import { Simulation } from './simulation';
+import { PlayerMode } from './player';
+import { createRandom } from './random';
+
+describe('Autopilot', () => {
+  it('should draw out into empty space and come back to capture', () => {
+    const simulation = new Simulation({ seed: 1 });
+    const pilot = new Autopilot(simulation, { random: createRandom(1) });
+    const coverage = simulation.getCoverage();
+    let drew = false;
+
+    for (let i = 0; i < 3000 && simulation.getCoverage() === coverage; i++) {
+      simulation.step(pilot.getState());
+      drew ||= simulation.getPlayer().mode === PlayerMode.DRAW;
+    }
+
+    expect(drew, 'The autopilot should leave the edge').toBe(true);
+    expect(simulation.getCoverage()).toBeGreaterThan(coverage);
+    expect(simulation.getLives(), 'The first excursion should be safe').toBe(3);
+  });
+
+  it('should clear levels in a soak run without getting stuck', () => {
+    const report = runSoak({ seed: 1, games: 2, maxLevels: 2 });
+
+    expect(report.stuck).toEqual([]);
+    expect(report.levels.filter((level) => level.outcome === 'cleared').length).toBeGreaterThanOrEqual(3);
+    expect(report.deaths.line, 'The autopilot should never cross its own line').toBeUndefined();
+    report.levels.forEach((level) => expect(level.coverage).toBeGreaterThan(0));
+  });
+
+  it('should report a level that runs out of ticks', () => {
+    const report = runSoak({ seed: 3, maxTicks: 500 });
+
+    expect(report.levels).toEqual([expect.objectContaining({ game: 1, level: 1, ticks: 500, outcome: 'stopped' })]);
+    expect(formatSoakReport(report)).toMatch(/^Game 1 {2}level 1 .* 500 ticks {2}stopped\nCleared 0 of 1 levels; deaths: .*; stuck: 0$/);
+  });
+
+  it('should summarise levels, deaths and stuck states', () => {
+    const text = formatSoakReport({
+      levels: [
+        { game: 1, level: 1, coverage: 76.25, deaths: 1, ticks: 4210, outcome: 'cleared' },
+        { game: 1, level: 2, coverage: 12, deaths: 0, ticks: 6000, outcome: 'stuck' },
+      ],
+      deaths: { sparx: 1 },
+      stuck: [{ game: 1, level: 2, tick: 10210, x: 50, y: 99, mode: PlayerMode.TRAVERSE }],
+    });
+
+    expect(text.split('\n')).toEqual([
+      'Game 1  level 1    76.3%  1 death     4210 ticks  cleared',
+      'Game 1  level 2    12.0%  0 deaths    6000 ticks  stuck',
+      `Stuck: game 1, level 2, tick 10210, ${PlayerMode.TRAVERSE} at 50,99`,
+      'Cleared 1 of 2 levels; deaths: 1 sparx; stuck: 1',
+    ]);
+  });
+});
@@ -0,0 +1,504 @@
+import { Grid, Point } from './grid';
+import { Direction, InputState, NO_INPUT } from './input';
+import { Player, PlayerMode, getDX, getDY } from './player';
+import { Simulation, GameEvents, DeathCause, TICK_DURATION } from './simulation';
+import { Random, createRandom, randomInt } from './random';
+import { LevelDefinition } from './levels';
+import { EventBus } from './events';
+import { Difficulty } from './difficulty';
+
+const EXCURSION_SIZES: ReadonlyArray<number> = [1, 3, 6, 10, 16, 24]; // cells deep and wide a planned rectangle may be
+const RETURN_SLACK = 30; // cells the way back may run past the way in, where the edge is not straight
+const QIX_MARGIN = 6; // cells a Qix must keep from a planned rectangle, plus one per cell of its line
+const QIX_DANGER = 4; // a Qix this close to the line sends the pilot home by the shortest way
+const SPARX_MARGIN = 3; // cells kept from Sparx on the edge network
+const OPEN_DISTANCE = 20; // a Qix this far from a spot on the edge leaves room to plan from it
+const RETRY_TICKS = 500; // ticks before the pilot heads back to a spot where no plan was found
+const LANDING_WAIT_MARGIN = 20; // ticks before the fuse would light that the pilot stops hovering by a Sparx-covered landing
+
+const DIRECTIONS: ReadonlyArray<Direction> = [Direction.UP, Direction.RIGHT, Direction.DOWN, Direction.LEFT];
+
+// Hold a direction until the player stands on the given cell
+interface Leg {
+  direction: Direction;
+  to: Point;
+}
+
+interface Excursion {
+  legs: Leg[];
+  area: number; // cells inside the rectangle, to prefer bigger captures
+}
+
+export interface AutopilotOptions {
+  player?: number; // index of the player to steer; defaults to player 1
+  random?: Random; // picks between equally good excursions; defaults to a fixed seed
+}
+
+// Computer player that produces input the way an InputHandler does, by looking at the simulation.
+// From the edge it plans a rectangle into EMPTY space that stays clear of every Qix, draws it and comes
+// back to close the shape. A Qix that comes close anyway cuts the excursion short; with no safe rectangle
+// it walks the edge, keeping away from the Sparx.
+export class Autopilot {
+  private simulation: Simulation;
+  private index: number;
+  private random: Random;
+  private legs: Leg[] = [];
+  private planStart: Point | null = null; // where the planned excursion leaves the edge
+  private drawing: boolean = false;
+  private heading: Direction = Direction.RIGHT;
+  private route: Point[] = []; // edge cells leading to a better place to plan from
+  private failed: Map<number, number> = new Map(); // cell index to the tick planning last failed there
+  private waited: number = 0;
+
+  constructor(simulation: Simulation, options: AutopilotOptions = {}) {
+    this.simulation = simulation;
+    this.index = options.player ?? 0;
+    this.random = options.random ?? createRandom(0);
+  }
+
+  // Input for the next tick
+  getState(): InputState {
+    const simulation = this.simulation;
+    const player = simulation.getPlayers()[this.index];
+    if (!player || simulation.isGameOver()) {
+      return { ...NO_INPUT };
+    }
+    return player.mode === PlayerMode.DRAW ? this.draw(player) : this.traverse(player);
+  }
+
+  private traverse(player: Player): InputState {
+    // Back on the edge the excursion has ended, by a capture or a death. A plan that could not be
+    // started from where it was made is dropped as well.
+    if (this.drawing || (this.planStart && manhattan(player, this.planStart) !== 0)) {
+      this.legs = [];
+      this.planStart = null;
+    }
+    this.drawing = false;
+    this.waited = 0;
+
+    if (this.legs.length === 0 && !this.hasFailedAt(player)) {
+      const excursion = this.planExcursion(player);
+      if (!excursion) {
+        this.failed.set(this.indexOf(player), this.simulation.getTick());
+      }
+      this.legs = excursion?.legs ?? [];
+      this.planStart = excursion ? { x: player.x, y: player.y } : null;
+    }
+    if (this.legs.length > 0) {
+      this.route = [];
+      return toInput(this.legs[0].direction, true);
+    }
+    return toInput(this.walk(player), false);
+  }
+
+  // Follow the edge network towards open space away from the Qix, or just along it when there is none
+  private walk(player: Player): Direction {
+    if (this.route.length > 0 && manhattan(player, this.route[0]) === 0) {
+      this.route.shift();
+    }
+    const next = this.route[0];
+    if (!next || manhattan(player, next) !== 1 || this.isSparxNear(next, SPARX_MARGIN)) {
+      this.route = this.findRoute(player);
+    }
+    if (this.route.length === 0) {
+      return this.chooseHeading(player);
+    }
+
+    const step = this.route[0];
+    this.heading = DIRECTIONS.find((direction) => player.x + getDX(direction) === step.x && player.y + getDY(direction) === step.y)!;
+    return this.heading;
+  }
+
+  // Breadth-first along the edge network, around any Sparx, to the nearest cell next to EMPTY space
+  // that is far from every Qix; failing that, to the one furthest from them
+  private findRoute(player: Player): Point[] {
+    const grid = this.simulation.getGrid();
+    const width = grid.getWidth();
+    const start = player.y * width + player.x;
+    const parents = new Int32Array(width * grid.getHeight()).fill(-1);
+    parents[start] = start;
+    const queue = [start];
+    let best = -1;
+    let bestDistance = -1;
+
+    for (let head = 0; head < queue.length; head++) {
+      const index = queue[head];
+      const cell = { x: index % width, y: Math.floor(index / width) };
+      const open = DIRECTIONS.some((direction) => grid.isEmpty(cell.x + getDX(direction), cell.y + getDY(direction)));
+      if (index !== start && open && !this.hasFailedAt(cell)) {
+        const distance = this.getQixDistance(cell);
+        if (distance > bestDistance) {
+          best = index;
+          bestDistance = distance;
+        }
+        if (distance >= OPEN_DISTANCE) {
+          break;
+        }
+      }
+      for (const direction of DIRECTIONS) {
+        const next = { x: cell.x + getDX(direction), y: cell.y + getDY(direction) };
+        const nextIndex = next.y * width + next.x;
+        if (
+          this.isInBounds(grid, next) &&
+          parents[nextIndex] === -1 &&
+          grid.isTraversable(next.x, next.y) &&
+          !this.isSparxNear(next, SPARX_MARGIN)
+        ) {
+          parents[nextIndex] = index;
+          queue.push(nextIndex);
+        }
+      }
+    }
+
+    const route: Point[] = [];
+    for (let index = best; index !== -1 && index !== start; index = parents[index]) {
+      route.unshift({ x: index % width, y: Math.floor(index / width) });
+    }
+    return route;
+  }
+
+  private draw(player: Player): InputState {
+    const grid = this.simulation.getGrid();
+    this.drawing = true;
+    while (this.legs.length > 0 && this.isAt(player, this.legs[0])) {
+      this.legs.shift();
+    }
+
+    // Go home by the shortest way when the plan is lost, runs into something, or a Qix closes in
+    const leg = this.legs[0];
+    const ahead = leg && { x: player.x + getDX(leg.direction), y: player.y + getDY(leg.direction) };
+    const blocked = !ahead || (!grid.isEmpty(ahead.x, ahead.y) && !this.isLanding(ahead, leg));
+    if (blocked || this.isQixNear(player.linePath, QIX_DANGER)) {
+      const home = this.findWayHome(player);
+      if (home && (blocked || this.stepsLeft(player) > manhattan(player, home.to))) {
+        this.legs = [home];
+      }
+    }
+
+    const next = this.legs[0];
+    if (!next) {
+      return toInput(player.direction, true);
+    }
+
+    // Hover next to the edge while a Sparx passes the landing cell
+    const landing = { x: player.x + getDX(next.direction), y: player.y + getDY(next.direction) };
+    const maxWait = this.simulation.getLevelParameters().fuseDelay / TICK_DURATION - LANDING_WAIT_MARGIN;
+    if (!grid.isEmpty(landing.x, landing.y) && this.isSparxNear(landing, 1) && this.waited < maxWait) {
+      this.waited++;
+      return { ...NO_INPUT };
+    }
+    return toInput(next.direction, true);
+  }
+
+  // Every rectangle from here into EMPTY space that can be drawn without touching anything and closes
+  // on the edge; the biggest ones clear of the Qix are the candidates
+  private planExcursion(player: Player): Excursion | null {
+    const grid = this.simulation.getGrid();
+    const candidates: Excursion[] = [];
+    for (const inward of DIRECTIONS) {
+      if (!grid.isEmpty(player.x + getDX(inward), player.y + getDY(inward))) {
+        continue;
+      }
+      for (const side of [turnLeft(inward), turnRight(inward)]) {
+        for (const depth of EXCURSION_SIZES) {
+          for (const width of EXCURSION_SIZES) {
+            const excursion = this.traceRectangle(player, inward, side, depth, width);
+            if (excursion) {
+              candidates.push(excursion);
+            }
+          }
+        }
+      }
+    }
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    // Pick among the three biggest so demos do not repeat themselves
+    candidates.sort((a, b) => b.area - a.area);
+    return candidates[randomInt(this.random, Math.min(3, candidates.length))];
+  }
+
+  private traceRectangle(start: Point, inward: Direction, side: Direction, depth: number, width: number): Excursion | null {
+    const grid = this.simulation.getGrid();
+    const path: Point[] = [];
+    const walk = (from: Point, direction: Direction, steps: number): Point | null => {
+      let x = from.x;
+      let y = from.y;
+      for (let i = 0; i < steps; i++) {
+        x += getDX(direction);
+        y += getDY(direction);
+        if (!grid.isEmpty(x, y)) {
+          return null;
+        }
+        path.push({ x, y });
+      }
+      return { x, y };
+    };
+
+    const corner = walk(start, inward, depth);
+    const turn = corner && walk(corner, side, width);
+    if (!turn) {
+      return null;
+    }
+
+    // Come back parallel to the way in until the line meets something to close on
+    const back = reverse(inward);
+    let landing: Point = turn;
+    for (let i = 0; i <= depth + RETURN_SLACK; i++) {
+      const next = { x: landing.x + getDX(back), y: landing.y + getDY(back) };
+      if (!grid.isEmpty(next.x, next.y)) {
+        if (!this.isInBounds(grid, next) || this.isUnfinishedLine(next)) {
+          return null;
+        }
+        landing = next;
+        path.push(landing);
+        // A Qix roams about as fast as a line is drawn, so longer excursions need more room
+        if (this.isQixNear([start, ...path], QIX_MARGIN + path.length) || this.isSparxNear(landing, SPARX_MARGIN)) {
+          return null;
+        }
+        return {
+          legs: [
+            { direction: inward, to: corner },
+            { direction: side, to: turn },
+            { direction: back, to: landing },
+          ],
+          area: depth * width,
+        };
+      }
+      landing = next;
+      path.push(landing);
+    }
+    return null;
+  }
+
+  // The shortest straight line from the player to something it may close on, never back along the line
+  private findWayHome(player: Player): Leg | null {
+    const grid = this.simulation.getGrid();
+    let best: Leg | null = null;
+    let bestSteps = Infinity;
+    for (const direction of DIRECTIONS) {
+      if (direction === reverse(player.direction)) {
+        continue;
+      }
+      let x = player.x;
+      let y = player.y;
+      for (let steps = 1; steps < bestSteps; steps++) {
+        x += getDX(direction);
+        y += getDY(direction);
+        if (!grid.isEmpty(x, y)) {
+          if (this.isInBounds(grid, { x, y }) && !this.isUnfinishedLine({ x, y })) {
+            best = { direction, to: { x, y } };
+            bestSteps = steps;
+          }
+          break;
+        }
+      }
+    }
+    return best;
+  }
+
+  // Walk the edge network hugging the left-hand side, turning back when a Sparx is ahead
+  private chooseHeading(player: Player): Direction {
+    const grid = this.simulation.getGrid();
+    const options = [turnLeft(this.heading), this.heading, turnRight(this.heading), reverse(this.heading)].filter((direction) => {
+      const next = { x: player.x + getDX(direction), y: player.y + getDY(direction) };
+      return this.isInBounds(grid, next) && grid.isTraversable(next.x, next.y);
+    });
+    const safe = options.filter(
+      (direction) => !this.isSparxNear({ x: player.x + getDX(direction), y: player.y + getDY(direction) }, SPARX_MARGIN),
+    );
+    this.heading = safe[0] ?? options[0] ?? this.heading;
+    return this.heading;
+  }
+
+  private hasFailedAt(cell: Point): boolean {
+    const tick = this.failed.get(this.indexOf(cell));
+    return tick !== undefined && this.simulation.getTick() - tick < RETRY_TICKS;
+  }
+
+  private indexOf(cell: Point): number {
+    return cell.y * this.simulation.getGrid().getWidth() + cell.x;
+  }
+
+  private isAt(player: Player, leg: Leg): boolean {
+    return player.x === leg.to.x && player.y === leg.to.y;
+  }
+
+  // A cell that is not EMPTY is only fine to step on at the end of the final leg
+  private isLanding(cell: Point, leg: Leg): boolean {
+    return this.legs.length === 1 && cell.x === leg.to.x && cell.y === leg.to.y;
+  }
+
+  private stepsLeft(player: Point): number {
+    let steps = 0;
+    let from = player;
+    for (const leg of this.legs) {
+      steps += manhattan(from, leg.to);
+      from = leg.to;
+    }
+    return steps;
+  }
+
+  // Part of a line still being drawn, the pilot's own included; closing on one is deadly or not allowed
+  private isUnfinishedLine(cell: Point): boolean {
+    return this.simulation.getPlayers().some((player) => player?.linePath.some((point) => point.x === cell.x && point.y === cell.y));
+  }
+
+  // Chebyshev distance to the nearest Qix
+  private getQixDistance(cell: Point): number {
+    return Math.min(...this.simulation.getQix().map((qix) => Math.max(Math.abs(qix.x - cell.x), Math.abs(qix.y - cell.y))));
+  }
+
+  private isQixNear(cells: ReadonlyArray<Point>, distance: number): boolean {
+    return this.simulation
+      .getQix()
+      .some((qix) => cells.some((cell) => Math.max(Math.abs(qix.x - cell.x), Math.abs(qix.y - cell.y)) <= distance));
+  }
+
+  private isSparxNear(cell: Point, distance: number): boolean {
+    return this.simulation.getSparx().some((sparx) => manhattan(sparx, cell) <= distance);
+  }
+
+  private isInBounds(grid: Grid, cell: Point): boolean {
+    return cell.x >= 0 && cell.x < grid.getWidth() && cell.y >= 0 && cell.y < grid.getHeight();
+  }
+}
+
+function toInput(direction: Direction, draw: boolean): InputState {
+  return {
+    ...NO_INPUT,
+    up: direction === Direction.UP,
+    down: direction === Direction.DOWN,
+    left: direction === Direction.LEFT,
+    right: direction === Direction.RIGHT,
+    fastDraw: draw,
+  };
+}
+
+function manhattan(a: Point, b: Point): number {
+  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+}
+
+function turnLeft(direction: Direction): Direction {
+  return (direction + 3) % 4;
+}
+
+function turnRight(direction: Direction): Direction {
+  return (direction + 1) % 4;
+}
+
+function reverse(direction: Direction): Direction {
+  return (direction + 2) % 4;
+}
+
+const STUCK_TICKS = 6000; // a minute of game time without a capture, a death or a new level
+
+export interface SoakOptions {
+  seed?: number; // seed of the first game; each further game uses the next one
+  games?: number; // defaults to one
+  maxLevels?: number; // a game stops once it has cleared this many levels
+  maxTicks?: number; // a game stops after this many ticks
+  levels?: ReadonlyArray<LevelDefinition>; // defaults to the built-in levels
+  stuckTicks?: number; // ticks without progress before a game counts as stuck
+  difficulty?: Difficulty; // defaults to normal
+}
+
+// How a level ended: cleared, lost with the last life, stuck without progress, or cut off by a limit
+export type SoakOutcome = 'cleared' | 'gameOver' | 'stuck' | 'stopped';
+
+export interface SoakLevelResult {
+  game: number; // counting from 1
+  level: number;
+  coverage: number; // percent when the level ended
+  deaths: number;
+  ticks: number;
+  outcome: SoakOutcome;
+}
+
+// Where a game stood when it stopped making progress
+export interface SoakStuck {
+  game: number;
+  level: number;
+  tick: number;
+  x: number;
+  y: number;
+  mode: PlayerMode;
+}
+
+export interface SoakReport {
+  levels: SoakLevelResult[];
+  deaths: Partial<Record<DeathCause, number>>; // over every game
+  stuck: SoakStuck[];
+}
+
+// Let the autopilot play whole games headlessly, level after level, and report how each level went
+export function runSoak(options: SoakOptions = {}): SoakReport {
+  const report: SoakReport = { levels: [], deaths: {}, stuck: [] };
+  const maxLevels = options.maxLevels ?? Infinity;
+  const maxTicks = options.maxTicks ?? Infinity;
+  const stuckTicks = options.stuckTicks ?? STUCK_TICKS;
+
+  for (let game = 1; game <= (options.games ?? 1); game++) {
+    const seed = (options.seed ?? 0) + game - 1;
+    const events = new EventBus<GameEvents>();
+    const simulation = new Simulation({ seed, levels: options.levels, difficulty: options.difficulty, events });
+    const pilot = new Autopilot(simulation, { random: createRandom(seed) });
+    let levelStart = 0;
+    let lastProgress = 0;
+    let deaths = 0;
+    let cleared = 0;
+
+    events.on('shapeCaptured', () => (lastProgress = simulation.getTick()));
+    events.on('lifeLost', ({ cause }) => {
+      report.deaths[cause] = (report.deaths[cause] ?? 0) + 1;
+      deaths++;
+      lastProgress = simulation.getTick();
+    });
+    events.on('levelCompleted', ({ level, coverage }) => {
+      const tick = simulation.getTick();
+      report.levels.push({ game, level, coverage, deaths, ticks: tick - levelStart, outcome: 'cleared' });
+      levelStart = lastProgress = tick;
+      deaths = 0;
+      cleared++;
+    });
+
+    let outcome: SoakOutcome = 'stopped';
+    while (cleared < maxLevels && simulation.getTick() < maxTicks) {
+      simulation.step(pilot.getState());
+      if (simulation.isGameOver()) {
+        outcome = 'gameOver';
+        break;
+      }
+      if (simulation.getTick() - lastProgress >= stuckTicks) {
+        const { x, y, mode } = simulation.getPlayer();
+        report.stuck.push({ game, level: simulation.getLevel(), tick: simulation.getTick(), x, y, mode });
+        outcome = 'stuck';
+        break;
+      }
+    }
+
+    if (cleared < maxLevels) {
+      const ticks = simulation.getTick() - levelStart;
+      report.levels.push({ game, level: simulation.getLevel(), coverage: simulation.getCoverage(), deaths, ticks, outcome });
+    }
+  }
+  return report;
+}
+
+// One line per level played, then the totals, e.g. "Game 1  level 2   75.3%  1 death   4210 ticks  cleared"
+export function formatSoakReport(report: SoakReport): string {
+  const lines = report.levels.map(({ game, level, coverage, deaths, ticks, outcome }) => {
+    const died = `${deaths} ${deaths === 1 ? 'death' : 'deaths'}`.padEnd(8);
+    return `Game ${game}  level ${String(level).padEnd(2)}  ${coverage.toFixed(1).padStart(5)}%  ${died}  ${String(ticks).padStart(6)} ticks  ${outcome}`;
+  });
+  for (const { game, level, tick, x, y, mode } of report.stuck) {
+    lines.push(`Stuck: game ${game}, level ${level}, tick ${tick}, ${mode} at ${x},${y}`);
+  }
+
+  const cleared = report.levels.filter((level) => level.outcome === 'cleared').length;
+  const causes = Object.entries(report.deaths).map(([cause, count]) => `${count} ${cause}`);
+  const deaths = causes.length > 0 ? causes.join(', ') : 'none';
+  lines.push(`Cleared ${cleared} of ${report.levels.length} levels; deaths: ${deaths}; stuck: ${report.stuck.length}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Difficulty, DIFFICULTIES, DIFFICULTY_PROFILES, getLevelParameters, describeLevelParameters, formatTime } from './difficulty';
+import { DEFAULT_LEVELS } from './levels';
+import { Simulation, GameEvents, TICK_DURATION } from './simulation';
+import { EventBus } from './events';
+import { NO_INPUT } from './input';
+import { decodeSnapshot, encodeSnapshot } from './snapshot';
+
+describe('Difficulty', () => {
+  const level = DEFAULT_LEVELS[0];
+
+  it('should play the first level on normal as the level file describes it', () => {
+    expect(getLevelParameters(level, 1)).toEqual({
+      targetCoverage: level.targetCoverage,
+      moveInterval: 30,
+      qixCount: level.qixCount,
+      qixMoveInterval: level.qixMoveInterval,
+      sparxCount: level.sparxCount,
+      sparxMoveInterval: level.sparxMoveInterval,
+      enemySpeed: 1,
+      fuseDelay: 600,
+      timeLimit: 180000,
+    });
+  });
+
+  it('should get harder with every level until each limit is reached', () => {
+    const first = getLevelParameters(level, 1, 'normal');
+    const fifth = getLevelParameters(level, 5, 'normal');
+    const last = getLevelParameters(level, 100, 'normal');
+
+    expect(fifth.targetCoverage).toBe(first.targetCoverage + 2);
+    expect(fifth.qixMoveInterval).toBeLessThan(first.qixMoveInterval);
+    expect(fifth.fuseDelay).toBe(520);
+    expect(last).toMatchObject({ targetCoverage: level.targetCoverage + 5, moveInterval: 26, fuseDelay: 400, timeLimit: 120000 });
+    expect(last.qixCount).toBe(level.qixCount + 1);
+    expect(last.sparxCount).toBe(level.sparxCount + 2);
+    expect(last).toEqual(getLevelParameters(level, 200, 'normal'));
+  });
+
+  it('should order the presets from easy to hard on every level', () => {
+    for (let n = 1; n <= 30; n++) {
+      const [easy, normal, hard] = DIFFICULTIES.map((difficulty) => getLevelParameters(level, n, difficulty));
+      expect(easy.targetCoverage).toBeLessThan(normal.targetCoverage);
+      expect(normal.targetCoverage).toBeLessThan(hard.targetCoverage);
+      expect(easy.sparxMoveInterval).toBeGreaterThan(hard.sparxMoveInterval);
+      expect(easy.fuseDelay).toBeGreaterThan(hard.fuseDelay);
+      expect(easy.timeLimit).toBeNull();
+      expect(hard.timeLimit).toBeLessThan(normal.timeLimit!);
+    }
+    expect(DIFFICULTY_PROFILES.easy.lives).toBeGreaterThan(DIFFICULTY_PROFILES.hard.lives);
+  });
+
+  it('should move the player as fast as the preset and level say', () => {
+    // Cells walked along the bottom edge in a second, starting from the spawn at the middle of it
+    const cellsPerSecond = (difficulty: Difficulty, levelNumber: number): number => {
+      const snapshot = new Simulation({ seed: 1, difficulty }).serialize();
+      const simulation = Simulation.fromSnapshot({ ...snapshot, level: levelNumber, sparx: [] });
+      const start = simulation.getPlayer().x;
+      simulation.advance(1000 / TICK_DURATION, { ...NO_INPUT, left: true });
+      expect(simulation.getLives(), 'The player should walk the edge unharmed').toBe(DIFFICULTY_PROFILES[difficulty].lives);
+      return start - simulation.getPlayer().x;
+    };
+
+    const normal = cellsPerSecond('normal', 1);
+    expect(normal).toBe(33);
+    expect(cellsPerSecond('easy', 1), 'Easy moves every 25 ms').toBe(40);
+    expect(cellsPerSecond('hard', 9)).toBe(normal);
+    expect(cellsPerSecond('normal', 9), 'Normal speeds up to a move every 26 ms').toBe(38);
+  });
+
+  it('should never add a Qix to a level without one', () => {
+    expect(getLevelParameters({ ...level, qixCount: 0, sparxCount: 0 }, 30, 'hard')).toMatchObject({ qixCount: 0, sparxCount: 3 });
+    expect(getLevelParameters({ ...level, sparxCount: 0 }, 1, 'easy').sparxCount).toBe(0);
+  });
+
+  it('should cost every player a life when the time runs out', () => {
+    const events = new EventBus<GameEvents>();
+    const deaths: Array<[number, string]> = [];
+    events.on('lifeLost', ({ player, cause }) => deaths.push([player, cause]));
+    // No Sparx to catch the players while they wait
+    const simulation = new Simulation({ seed: 1, mode: 'coop', levels: [{ ...level, sparxCount: 0 }], events });
+
+    simulation.advance(17999, NO_INPUT);
+    expect(simulation.getTimeLeft()).toBe(10);
+    expect(deaths).toEqual([]);
+
+    simulation.advance(1, NO_INPUT);
+    expect(deaths).toEqual([
+      [0, 'time'],
+      [1, 'time'],
+    ]);
+    expect([simulation.getLives(0), simulation.getLives(1)]).toEqual([2, 2]);
+    expect(simulation.getTimeLeft(), 'The clock should start again').toBe(180000);
+  });
+
+  it('should keep the difficulty and the clock in a snapshot', () => {
+    const simulation = new Simulation({ seed: 1, difficulty: 'hard' });
+    expect(simulation.getLives()).toBe(2);
+    simulation.advance(500, NO_INPUT);
+
+    const restored = Simulation.fromSnapshot(decodeSnapshot(encodeSnapshot(simulation.serialize())));
+
+    expect(restored.getDifficulty()).toBe('hard');
+    expect(restored.getLevelParameters()).toEqual(simulation.getLevelParameters());
+    expect(restored.getTimeLeft()).toBe(115000);
+  });
+
+  it('should describe the settings for the HUD', () => {
+    expect(describeLevelParameters('normal', getLevelParameters(level, 1))).toBe(
+      `Normal: player 1.00x, ${level.qixCount} Qix and ${level.sparxCount} Sparx at 1.00x, fuse 0.6s, 3:00 per level`,
+    );
+    expect(describeLevelParameters('easy', getLevelParameters(level, 1, 'easy'))).toMatch(/^Easy: .*, no time limit$/);
+    expect(formatTime(59001)).toBe('1:00');
+    expect(formatTime(-5)).toBe('0:00');
+  });
+});
@@ -0,0 +1,116 @@
+import { LevelDefinition } from './levels';
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+export const DIFFICULTIES: ReadonlyArray<Difficulty> = ['easy', 'normal', 'hard'];
+
+// A value at level 1 that changes by step with every level until it reaches limit
+export interface Ramp {
+  start: number;
+  step: number;
+  limit: number;
+}
+
+// How a preset scales the game as the levels go by. Boards and the base enemy counts and speeds
+// come from the level definitions; the profile adjusts them and sets everything the levels leave out.
+export interface DifficultyProfile {
+  name: string;
+  lives: number;
+  targetCoverage: Ramp; // percentage points added to the level's target
+  moveInterval: Ramp; // ms between player moves; slow drawing takes twice as long
+  extraQix: Ramp; // Qix added to levels that have any, rounded down
+  extraSparx: Ramp; // Sparx added to every level, rounded down; negative takes some away
+  enemySpeed: Ramp; // multiplies the speed of the level's Qix and Sparx
+  fuseDelay: Ramp; // ms the player may stay still mid-line before the fuse lights
+  timeLimit: Ramp | null; // seconds to clear a level, or null for no limit
+}
+
+// Normal plays level 1 exactly as the level file describes it
+export const DIFFICULTY_PROFILES: Readonly<Record<Difficulty, DifficultyProfile>> = {
+  easy: {
+    name: 'Easy',
+    lives: 5,
+    targetCoverage: { start: -10, step: 0.5, limit: -5 },
+    moveInterval: { start: 25, step: 0, limit: 25 },
+    extraQix: { start: 0, step: 0, limit: 0 },
+    extraSparx: { start: -1, step: 0.25, limit: 0 },
+    enemySpeed: { start: 0.8, step: 0.02, limit: 1 },
+    fuseDelay: { start: 900, step: 0, limit: 900 },
+    timeLimit: null,
+  },
+  normal: {
+    name: 'Normal',
+    lives: 3,
+    targetCoverage: { start: 0, step: 0.5, limit: 5 },
+    moveInterval: { start: 30, step: -0.5, limit: 26 },
+    extraQix: { start: 0, step: 0.2, limit: 1 },
+    extraSparx: { start: 0, step: 0.25, limit: 2 },
+    enemySpeed: { start: 1, step: 0.04, limit: 1.4 },
+    fuseDelay: { start: 600, step: -20, limit: 400 },
+    timeLimit: { start: 180, step: -5, limit: 120 },
+  },
+  hard: {
+    name: 'Hard',
+    lives: 2,
+    targetCoverage: { start: 5, step: 0.5, limit: 10 },
+    moveInterval: { start: 30, step: 0, limit: 30 },
+    extraQix: { start: 0, step: 0.34, limit: 2 },
+    extraSparx: { start: 1, step: 0.25, limit: 3 },
+    enemySpeed: { start: 1.2, step: 0.05, limit: 1.8 },
+    fuseDelay: { start: 400, step: -20, limit: 250 },
+    timeLimit: { start: 120, step: -5, limit: 60 },
+  },
+};
+
+// What a level plays with once the profile is applied to its definition
+export interface LevelParameters {
+  targetCoverage: number; // percent
+  moveInterval: number; // ms between player moves
+  qixCount: number;
+  qixMoveInterval: number; // ms between Qix steps
+  sparxCount: number;
+  sparxMoveInterval: number; // ms between Sparx steps
+  enemySpeed: number; // the multiplier behind both enemy intervals
+  fuseDelay: number; // ms
+  timeLimit: number | null; // ms
+}
+
+export function getLevelParameters(definition: LevelDefinition, level: number, difficulty: Difficulty = 'normal'): LevelParameters {
+  const profile = DIFFICULTY_PROFILES[difficulty];
+  const at = (ramp: Ramp): number => getRampValue(ramp, level);
+  const enemySpeed = at(profile.enemySpeed);
+  return {
+    targetCoverage: Math.min(Math.max(definition.targetCoverage + at(profile.targetCoverage), 1), 100),
+    moveInterval: at(profile.moveInterval),
+    qixCount: definition.qixCount > 0 ? definition.qixCount + Math.floor(at(profile.extraQix)) : 0,
+    qixMoveInterval: definition.qixMoveInterval / enemySpeed,
+    sparxCount: Math.max(definition.sparxCount + Math.floor(at(profile.extraSparx)), 0),
+    sparxMoveInterval: definition.sparxMoveInterval / enemySpeed,
+    enemySpeed,
+    fuseDelay: at(profile.fuseDelay),
+    timeLimit: profile.timeLimit ? at(profile.timeLimit) * 1000 : null,
+  };
+}
+
+export function getRampValue(ramp: Ramp, level: number): number {
+  const value = ramp.start + ramp.step * (Math.max(level, 1) - 1);
+  return ramp.step < 0 ? Math.max(value, ramp.limit) : Math.min(value, ramp.limit);
+}
+
+// Minutes and seconds, rounded up so the clock shows 0:00 only once time is up
+export function formatTime(ms: number): string {
+  const seconds = Math.ceil(Math.max(ms, 0) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// One line for the HUD, e.g. "Normal: player 1.07x, 2 Qix and 3 Sparx at 1.16x, fuse 0.5s, 2:40 per level".
+// The player's speed is relative to Normal's first level and the enemies' to the level file.
+export function describeLevelParameters(difficulty: Difficulty, parameters: LevelParameters): string {
+  const baseMove = DIFFICULTY_PROFILES.normal.moveInterval.start;
+  const parts = [
+    `player ${(baseMove / parameters.moveInterval).toFixed(2)}x`,
+    `${parameters.qixCount} Qix and ${parameters.sparxCount} Sparx at ${parameters.enemySpeed.toFixed(2)}x`,
+    `fuse ${(parameters.fuseDelay / 1000).toFixed(1)}s`,
+    parameters.timeLimit === null ? 'no time limit' : `${formatTime(parameters.timeLimit)} per level`,
+  ];
+  return `${DIFFICULTY_PROFILES[difficulty].name}: ${parts.join(', ')}`;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LevelEditor } from './editor';
+import { CellType } from './grid';
+import { createLevelGrid, getSpawnPoint } from './levels';
+import { Simulation } from './simulation';
+import { NO_INPUT } from './input';
+
+describe('LevelEditor', () => {
+  let editor: LevelEditor;
+
+  beforeEach(() => {
+    const canvas = document.createElement('canvas');
+    editor = new LevelEditor(canvas);
+  });
+
+  it('should paint walls, filled blocks and erase them again', () => {
+    editor.setTool('wall');
+    editor.paintCell(10, 10);
+    editor.setTool('filled');
+    editor.paintCell(11, 10);
+    editor.paintCell(12, 10);
+
+    expect(editor.getGrid().getCell(10, 10)).toBe(CellType.BORDER);
+    expect(editor.getGrid().getCell(12, 10)).toBe(CellType.FILLED);
+
+    editor.setTool('erase');
+    editor.paintCell(12, 10);
+    expect(editor.getGrid().getCell(12, 10)).toBe(CellType.EMPTY);
+  });
+
+  it('should not paint over the outer border', () => {
+    editor.setTool('erase');
+    editor.paintCell(0, 50);
+
+    expect(editor.getGrid().getCell(0, 50)).toBe(CellType.BORDER);
+  });
+
+  it('should turn the painted board into an equivalent level definition', () => {
+    editor.setTool('wall');
+    for (let x = 20; x < 30; x++) editor.paintCell(x, 40);
+    editor.setTool('filled');
+    editor.paintCell(60, 60);
+    editor.setTargetCoverage(60);
+
+    const level = editor.toLevel();
+
+    expect(level.targetCoverage).toBe(60);
+    expect(level.blocks).toContainEqual({ x: 20, y: 40, width: 10, height: 1, type: 'wall' });
+    expect(createLevelGrid(level).toRunLength(), 'Level should rebuild the painted board').toEqual(editor.getGrid().toRunLength());
+  });
+
+  it('should reject a spawn point off the edge network', () => {
+    editor.setTool('spawn');
+    editor.paintCell(50, 50);
+
+    expect(() => editor.toLevel()).toThrow('level.spawn (50, 50) must be on a border, wall or filled edge cell');
+  });
+
+  it('should round-trip a level through export and import', () => {
+    editor.setTool('wall');
+    editor.paintCell(30, 30);
+    editor.setTool('spawn');
+    editor.paintCell(0, 30);
+    const json = editor.exportJSON();
+
+    const other = new LevelEditor(document.createElement('canvas'));
+    other.importJSON(json);
+
+    expect(other.getGrid().getCell(30, 30)).toBe(CellType.BORDER);
+    expect(other.getSpawn()).toEqual({ x: 0, y: 30 });
+    expect(other.toLevel()).toEqual(editor.toLevel());
+  });
+
+  it('should report invalid level files on import', () => {
+    expect(() => editor.importJSON('[{"width": 5}]')).toThrow('levels[0].width must be an integer between 10 and 2000, got 5');
+  });
+
+  it('should play-test the edited level', () => {
+    editor.setTool('spawn');
+    editor.paintCell(99, 50);
+    const level = editor.toLevel();
+
+    const state = new Simulation({ levels: [level], seed: 1 }).advance(10, NO_INPUT);
+
+    expect(state.player, 'Player should start at the edited spawn').toMatchObject(getSpawnPoint(level));
+  });
+});
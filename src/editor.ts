@@ -0,0 +1,146 @@
+import { Grid, CellType, Point } from './grid';
+import { Renderer } from './renderer';
+import { LevelDefinition, DEFAULT_LEVELS, createLevelGrid, gridToBlocks, getSpawnPoint, parseLevel, loadLevels } from './levels';
+
+export type EditorTool = 'wall' | 'filled' | 'erase' | 'spawn';
+
+// Level settings the editor keeps alongside the painted board
+type EditorSettings = Omit<LevelDefinition, 'width' | 'height' | 'spawn' | 'blocks'>;
+
+// Paint walls and pre-filled blocks onto a board with the mouse and turn the result into a level definition
+export class LevelEditor {
+  private canvas: HTMLCanvasElement;
+  private renderer: Renderer;
+  private grid: Grid;
+  private spawn: Point;
+  private settings: EditorSettings;
+  private tool: EditorTool = 'wall';
+  private cursor: Point | null = null;
+  private painting: boolean = false;
+  private attached: boolean = false;
+
+  constructor(canvas: HTMLCanvasElement, level: LevelDefinition = DEFAULT_LEVELS[0]) {
+    this.canvas = canvas;
+    this.grid = createLevelGrid(level);
+    this.spawn = getSpawnPoint(level);
+    this.settings = this.pickSettings(level);
+    this.renderer = new Renderer(canvas, this.grid);
+  }
+
+  attach(): void {
+    if (this.attached) return;
+    this.attached = true;
+    this.canvas.addEventListener('mousedown', this.onMouseDown);
+    this.canvas.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('mouseup', this.onMouseUp);
+    this.canvas.addEventListener('mouseleave', this.onMouseLeave);
+    this.render();
+  }
+
+  detach(): void {
+    if (!this.attached) return;
+    this.attached = false;
+    this.canvas.removeEventListener('mousedown', this.onMouseDown);
+    this.canvas.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('mouseup', this.onMouseUp);
+    this.canvas.removeEventListener('mouseleave', this.onMouseLeave);
+    this.painting = false;
+    this.cursor = null;
+  }
+
+  private onMouseDown = (e: MouseEvent): void => {
+    const cell = this.renderer.cellAt(e.clientX, e.clientY);
+    if (!cell) return;
+    this.painting = this.tool !== 'spawn';
+    this.paintCell(cell.x, cell.y);
+  };
+
+  private onMouseMove = (e: MouseEvent): void => {
+    this.cursor = this.renderer.cellAt(e.clientX, e.clientY);
+    if (this.painting && this.cursor) {
+      this.paintCell(this.cursor.x, this.cursor.y);
+    } else {
+      this.render();
+    }
+  };
+
+  private onMouseUp = (): void => {
+    this.painting = false;
+  };
+
+  private onMouseLeave = (): void => {
+    this.cursor = null;
+    this.render();
+  };
+
+  setTool(tool: EditorTool): void {
+    this.tool = tool;
+  }
+
+  getTool(): EditorTool {
+    return this.tool;
+  }
+
+  setTargetCoverage(targetCoverage: number): void {
+    this.settings.targetCoverage = targetCoverage;
+  }
+
+  getTargetCoverage(): number {
+    return this.settings.targetCoverage;
+  }
+
+  getGrid(): Grid {
+    return this.grid;
+  }
+
+  getSpawn(): Point {
+    return this.spawn;
+  }
+
+  // Apply the current tool to one cell; the outer border cannot be painted over
+  paintCell(x: number, y: number): void {
+    if (this.tool === 'spawn') {
+      this.spawn = { x, y };
+    } else if (x > 0 && y > 0 && x < this.grid.getWidth() - 1 && y < this.grid.getHeight() - 1) {
+      const type = this.tool === 'wall' ? CellType.BORDER : this.tool === 'filled' ? CellType.FILLED : CellType.EMPTY;
+      this.grid.setCell(x, y, type);
+    }
+    this.render();
+  }
+
+  // Validated level definition for the current board; throws with the name of the bad field
+  toLevel(): LevelDefinition {
+    return parseLevel({
+      ...this.settings,
+      width: this.grid.getWidth(),
+      height: this.grid.getHeight(),
+      spawn: this.spawn,
+      blocks: gridToBlocks(this.grid),
+    });
+  }
+
+  // Level file containing just this level
+  exportJSON(): string {
+    return JSON.stringify([this.toLevel()], null, 2);
+  }
+
+  // Load the first level of a level file, replacing the current board
+  importJSON(json: string): void {
+    const [level] = loadLevels(json);
+    this.grid = createLevelGrid(level);
+    this.spawn = getSpawnPoint(level);
+    this.settings = this.pickSettings(level);
+    this.render();
+  }
+
+  render(): void {
+    if (!this.attached) return;
+    this.renderer.renderBoard(this.grid);
+    this.renderer.renderEditorOverlay(this.grid, this.spawn, this.cursor);
+  }
+
+  private pickSettings(level: LevelDefinition): EditorSettings {
+    const { name, targetCoverage, qixCount, qixMoveInterval, sparxCount, sparxMoveInterval, captureRule } = level;
+    return { name, targetCoverage, qixCount, qixMoveInterval, sparxCount, sparxMoveInterval, captureRule };
+  }
+}
@@ -0,0 +1,21 @@
+export type Listener<T> = (payload: T) => void;
+
+// Typed publish/subscribe: Events maps each event name to its payload type
+export class EventBus<Events extends object> {
+  private listeners: { [K in keyof Events]?: Array<Listener<Events[K]>> } = {};
+
+  // Returns a function that unsubscribes again
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    this.listeners[type] = [...(this.listeners[type] ?? []), listener];
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    this.listeners[type] = this.listeners[type]?.filter((l) => l !== listener);
+  }
+
+  // Listeners run in subscription order; one that unsubscribes during emit still gets this event
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.listeners[type]?.forEach((listener) => listener(payload));
+  }
+}
@@ -0,0 +1,34 @@
+import { Point } from './grid';
+
+// The fuse burns along the unfinished line from its first cell towards the player
+export interface Fuse {
+  lit: boolean;
+  index: number; // position along the line path
+}
+
+export function createFuse(): Fuse {
+  return { lit: false, index: 0 };
+}
+
+// Light the fuse or advance it one cell; returns true once it reaches the player
+export function burnFuse(fuse: Fuse, linePath: Point[]): boolean {
+  if (linePath.length === 0) {
+    return false;
+  }
+
+  if (!fuse.lit) {
+    fuse.lit = true;
+    fuse.index = 0;
+  } else {
+    fuse.index = Math.min(fuse.index + 1, linePath.length - 1);
+  }
+
+  return fuse.index >= linePath.length - 1;
+}
+
+export function getFusePosition(fuse: Fuse, linePath: Point[]): Point | null {
+  if (!fuse.lit || fuse.index >= linePath.length) {
+    return null;
+  }
+  return linePath[fuse.index];
+}
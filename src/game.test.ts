@@ -1,12 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { Game } from './game';
-import { PlayerMode } from './player';
+import { Game, GameState, AUTOSAVE_KEY } from './game';
+import { PlayerMode, DrawSpeed } from './player';
+import { CellType } from './grid';
+import { Direction } from './input';
+import { importRecording } from './recording';
+import { SNAPSHOT_VERSION } from './snapshot';
+import { AsciiRenderer, renderAscii } from './ascii';
 
 describe('Game Integration Test - No Mocking', () => {
   let game: Game;
   let now: number;
   const TIME_STEP = 30;
   const MAX_TICKS = 700;
+  const SEED = 1;
 
   const press = (key: string): void => game.simulateKeyPress(key, true);
   const release = (key: string): void => game.simulateKeyPress(key, false);
@@ -30,6 +36,23 @@ describe('Game Integration Test - No Mocking', () => {
     return false;
   };
 
+  // Text picture of the board for assertion messages
+  const board = (): string =>
+    '\n' + renderAscii(game.getGrid(), [game.getPlayer()], game.getQix(), game.getSparx(), game.getSimulation().getFusePositions(), 2);
+
+  // Draw a tiny loop into the player's own line
+  const crashIntoOwnLine = (): void => {
+    hold(' ', 'ArrowUp');
+    tick(3);
+    release('ArrowUp');
+    for (const key of ['ArrowLeft', 'ArrowDown', 'ArrowRight']) {
+      press(key);
+      tick();
+      release(key);
+    }
+    release(' ');
+  };
+
   const captureUpFromCenter = (): boolean => {
     hold('ArrowUp', ' ');
     const completed = runUntil(() => game.getPlayer().mode === PlayerMode.TRAVERSE && game.getCoverage() > 5, 500);
@@ -38,11 +61,12 @@ describe('Game Integration Test - No Mocking', () => {
   };
 
   beforeEach(() => {
+    localStorage.clear();
     document.body.innerHTML = '';
     const canvas = document.createElement('canvas');
     canvas.id = 'gameCanvas';
     document.body.appendChild(canvas);
-    game = new Game(canvas);
+    game = new Game(canvas, { seed: SEED });
     now = 0;
   });
 
@@ -58,8 +82,8 @@ describe('Game Integration Test - No Mocking', () => {
     const finalCoverage = game.getCoverage();
     const finalLevel = game.getLevel();
 
-    expect(finalCoverage, `Coverage should be around 50%, got ${finalCoverage}%`).toBeGreaterThan(40);
-    expect(finalCoverage, `Coverage should be around 50%, got ${finalCoverage}%`).toBeLessThan(60);
+    expect(finalCoverage, `Coverage should be around 50%, got ${finalCoverage}%${board()}`).toBeGreaterThan(40);
+    expect(finalCoverage, `Coverage should be around 50%, got ${finalCoverage}%${board()}`).toBeLessThan(60);
 
     // Level should NOT be incremented (target is 75%)
     expect(finalLevel, 'Level should still be 1').toBe(1);
@@ -68,7 +92,7 @@ describe('Game Integration Test - No Mocking', () => {
   it('should increment level when coverage exceeds targetCoverage%', () => {
     game.stop();
     const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
-    game = new Game(canvas, { targetCoverage: 45 });
+    game = new Game(canvas, { targetCoverage: 45, seed: SEED });
     now = 0;
 
     hold('ArrowUp', ' ');
@@ -113,4 +137,442 @@ describe('Game Integration Test - No Mocking', () => {
     expect(player.x, 'Player should reset to bottom-center X').toBe(50);
     expect(player.y, 'Player should reset to bottom-center Y').toBe(99);
   });
+
+  it('should show level complete and game over through a pluggable renderer', () => {
+    game.stop();
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    const renderer = new AsciiRenderer();
+    game = new Game(canvas, { targetCoverage: 45, seed: SEED, renderer });
+
+    expect(renderer.toString(), 'HUD should be written to the renderer').toContain('Lives: 3');
+
+    hold('ArrowUp', ' ');
+    runUntil(() => game.getLevel() === 2, 500);
+    releaseAll('ArrowUp', ' ');
+    expect(renderer.toString()).toMatch(/LEVEL 1 COMPLETE - coverage 5\d\.\d%/);
+
+    tick(110);
+    expect(game.getState(), 'Next level should start by itself after a few seconds').toBe(GameState.PLAYING);
+    expect(renderer.toString()).not.toContain('COMPLETE');
+
+    for (let attempt = 0; attempt < 5 && !game.isGameOver(); attempt++) {
+      crashIntoOwnLine();
+    }
+    expect(game.isGameOver(), `Game should be over${board()}`).toBe(true);
+    expect(game.getState(), 'A first score always makes the empty table').toBe(GameState.ENTER_INITIALS);
+    expect(renderer.toString()).toContain('initials [A]');
+
+    // Arcade style: up moves to the next letter, confirm fixes it
+    for (const key of ['ArrowUp', 'Enter', 'Enter', 'ArrowUp', 'ArrowUp', 'Enter']) {
+      press(key);
+      tick();
+      release(key);
+      tick();
+    }
+
+    expect(game.getState()).toBe(GameState.GAME_OVER);
+    expect(renderer.toString()).toContain(`GAME OVER - final score ${game.getScore()}`);
+    expect(renderer.toString()).toMatch(new RegExp(` 1\\. BBD +${game.getScore()}  L2  \\d+%`));
+  });
+
+  it('should publish events that drive the HUD', () => {
+    game.stop();
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    const renderer = new AsciiRenderer();
+    game = new Game(canvas, { seed: SEED, renderer });
+    const captures: number[] = [];
+    const unsubscribed: number[] = [];
+    game.on('shapeCaptured', ({ coverageDelta }) => captures.push(coverageDelta));
+    const unsubscribe = game.on('shapeCaptured', ({ coverageDelta }) => unsubscribed.push(coverageDelta));
+    let livesLeft = 3;
+    game.on('lifeLost', ({ lives }) => (livesLeft = lives));
+
+    crashIntoOwnLine();
+    expect(livesLeft).toBe(2);
+    expect(renderer.toString(), 'HUD should follow the death').toContain('Lives: 2');
+
+    unsubscribe();
+    expect(captureUpFromCenter(), 'Shape should be completed').toBe(true);
+    expect(captures).toHaveLength(1);
+    expect(captures[0], 'Delta should be about half the board').toBeGreaterThan(40);
+    expect(unsubscribed, 'Unsubscribed listener should hear nothing').toEqual([]);
+    expect(renderer.toString(), 'HUD should follow the capture').toContain(`Coverage: ${game.getCoverage().toFixed(1)}%`);
+  });
+
+  it('should move the Qix identically for the same seed', () => {
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    const other = new Game(canvas, { seed: SEED });
+
+    for (let i = 1; i <= 100; i++) {
+      game.update(i * TIME_STEP);
+      other.update(i * TIME_STEP);
+    }
+
+    expect(other.getQix(), 'Qix should follow the same path').toEqual(game.getQix());
+    const [qix] = game.getQix();
+    expect(game.getGrid().isEmpty(qix.x, qix.y), 'Qix should stay in empty space').toBe(true);
+  });
+
+  it('should lose a life when the Qix touches the line being drawn', () => {
+    hold(' ', 'ArrowUp');
+    tick(3);
+    releaseAll('ArrowUp', ' ');
+
+    expect(game.getPlayer().mode, 'Player should be in DRAW mode').toBe(PlayerMode.DRAW);
+
+    // Park the Qix right next to the line
+    const [qix] = game.getQix();
+    qix.x = 49;
+    qix.y = 97;
+    tick(2);
+
+    expect(game.getLives(), 'Qix contact should cost a life').toBe(2);
+    expect(game.getPlayer().mode, 'Player should reset to TRAVERSE mode after death').toBe(PlayerMode.TRAVERSE);
+    expect(game.getGrid().getCell(50, 97), 'Unfinished line should be cleared').toBe(CellType.EMPTY);
+  });
+
+  it('should keep Sparx on the traversable edge network', () => {
+    for (let i = 0; i < 200; i++) {
+      tick();
+      for (const sparx of game.getSparx()) {
+        expect(game.getGrid().isTraversable(sparx.x, sparx.y), `Sparx left the network at ${sparx.x},${sparx.y}`).toBe(true);
+      }
+    }
+  });
+
+  it('should lose a life when a Sparx lands on the traversing player', () => {
+    const sparx = game.getSparx()[0];
+    sparx.x = 52;
+    sparx.y = 99;
+    sparx.direction = Direction.LEFT;
+    tick(4);
+
+    expect(game.getLives(), 'Sparx contact should cost a life').toBe(2);
+  });
+
+  it('should reroute a Sparx whose cell was captured', () => {
+    expect(captureUpFromCenter(), 'Shape should be completed').toBe(true);
+
+    const sparx = game.getSparx()[0];
+    sparx.x = 75;
+    sparx.y = 50;
+    expect(game.getGrid().isTraversable(75, 50), 'Captured interior should not be traversable').toBe(false);
+
+    tick(4);
+
+    expect(game.getGrid().isTraversable(sparx.x, sparx.y), 'Sparx should be back on the network').toBe(true);
+  });
+
+  it('should award points per captured cell with a big-capture multiplier', () => {
+    expect(game.getScore(), 'Score should start at zero').toBe(0);
+    const totalCells = game.getGrid().getWidth() * game.getGrid().getHeight();
+    const coverageBefore = game.getCoverage();
+
+    expect(captureUpFromCenter(), 'Shape should be completed').toBe(true);
+
+    // Capturing roughly half the board is well past the 25% threshold, so points are doubled
+    const claimed = Math.round(((game.getCoverage() - coverageBefore) / 100) * totalCells);
+    expect(game.getScore(), 'Score should be 10 points per cell, doubled').toBe(claimed * 10 * 2);
+  });
+
+  it('should add a level bonus when finishing above targetCoverage', () => {
+    game.stop();
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    game = new Game(canvas, { targetCoverage: 45, seed: SEED });
+    now = 0;
+
+    hold('ArrowUp', ' ');
+    runUntil(() => game.getLevel() === 2, 500);
+    releaseAll('ArrowUp', ' ');
+
+    // The ~4,800-cell capture is worth over 90,000; finishing at ~52% adds 1000 plus 1000 per whole percent over 45%
+    expect(game.getScore(), 'Score should include the level bonus').toBeGreaterThan(90000 + 1000 + 5 * 1000);
+  });
+
+  it('should show the difficulty settings and count down the time on the HUD', () => {
+    game.stop();
+    document.body.insertAdjacentHTML('beforeend', '<b id="target"></b><span hidden><b id="time"></b></span><div id="parameters"></div>');
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    game = new Game(canvas, { seed: SEED, difficulty: 'hard' });
+    now = 0;
+    const text = (id: string): string | null => document.getElementById(id)!.textContent;
+
+    expect(text('target')).toBe('80%');
+    expect(text('time')).toBe('2:00');
+    expect(document.getElementById('time')!.parentElement!.hidden).toBe(false);
+    expect(text('parameters')).toMatch(/^Hard: player 1\.00x, 1 Qix and \d Sparx at 1\.20x, fuse 0\.4s, 2:00 per level$/);
+
+    tick(40);
+    expect(text('time'), 'The clock should tick down without any event').toBe('1:59');
+  });
+
+  it('should slow draw at half speed with separate cell kinds and double points', () => {
+    const totalCells = game.getGrid().getWidth() * game.getGrid().getHeight();
+    const coverageBefore = game.getCoverage();
+
+    // A slow line takes long enough for the Qix to reach the middle of the board, so cut off a corner instead
+    hold('ArrowLeft');
+    runUntil(() => game.getPlayer().x === 10);
+    release('ArrowLeft');
+
+    hold('Shift', 'ArrowUp');
+    tick(10);
+
+    const player = game.getPlayer();
+    expect(player.mode, 'Player should be in DRAW mode').toBe(PlayerMode.DRAW);
+    expect(player.drawSpeed, 'Shift should start a slow line').toBe(DrawSpeed.SLOW);
+    expect(player.y, 'Slow draw should move every other tick').toBe(94);
+    expect(game.getGrid().getCell(10, 98), 'Slow line cells should be SLOW_LINE').toBe(CellType.SLOW_LINE);
+
+    release('ArrowUp');
+    hold('ArrowLeft');
+    const completed = runUntil(() => game.getPlayer().mode === PlayerMode.TRAVERSE, 500);
+    releaseAll('Shift', 'ArrowLeft');
+
+    expect(completed, 'Shape should be completed').toBe(true);
+    expect(game.getLives(), 'Player should survive the slow line').toBe(3);
+    expect(game.getGrid().getCell(5, 97), `Captured cells should be SLOW_FILLED${board()}`).toBe(CellType.SLOW_FILLED);
+
+    const claimed = Math.round(((game.getCoverage() - coverageBefore) / 100) * totalCells);
+    // Too small for a big-capture multiplier, so only the slow-draw double applies
+    expect(game.getScore(), 'Slow capture should pay double').toBe(claimed * 10 * 2);
+  });
+
+  it('should light the fuse after idling mid-line and lose a life when it catches up', () => {
+    hold(' ', 'ArrowUp');
+    tick(10);
+    releaseAll('ArrowUp', ' ');
+
+    const linePath = [...game.getPlayer().linePath];
+    expect(linePath.length, 'Player should have drawn ten cells').toBe(10);
+
+    // 600ms idle delay before the fuse lights
+    tick(19);
+    expect(game.getFusePosition(), 'Fuse should not be lit yet').toBeNull();
+    tick(2);
+    expect(game.getFusePosition(), 'Fuse should start at the first line cell').toEqual(linePath[0]);
+
+    const caught = runUntil(() => game.getLives() === 2, 50);
+    expect(caught, 'Fuse should catch the idle player').toBe(true);
+    expect(game.getFusePosition(), 'Fuse should be cleared after the death').toBeNull();
+  });
+
+  it('should pause the fuse while the player keeps drawing', () => {
+    hold(' ', 'ArrowUp');
+    tick(5);
+    releaseAll('ArrowUp', ' ');
+
+    runUntil(() => game.getFusePosition() !== null, 50);
+    tick(2);
+    const pausedAt = game.getFusePosition();
+
+    press('ArrowUp');
+    tick(10);
+    release('ArrowUp');
+
+    expect(game.getFusePosition(), 'Fuse should hold its position while the player moves').toEqual(pausedAt);
+    expect(game.getLives(), 'Player should still be alive').toBe(3);
+  });
+
+  it('should replay an exported recording in place of the keyboard', () => {
+    hold(' ', 'ArrowUp');
+    tick(40);
+    releaseAll(' ', 'ArrowUp');
+    press('ArrowLeft');
+    tick(20);
+    release('ArrowLeft');
+
+    const recording = importRecording(game.exportRecording());
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    const replayGame = new Game(canvas, { replay: recording });
+    for (let t = TIME_STEP; t <= now; t += TIME_STEP) {
+      replayGame.update(t);
+    }
+
+    expect(replayGame.isReplaying()).toBe(true);
+    expect(replayGame.getPlayer(), 'Replay should end in the same place').toEqual(game.getPlayer());
+    expect(replayGame.getQix(), 'Replay should reproduce the Qix').toEqual(game.getQix());
+    expect(replayGame.getLives()).toBe(game.getLives());
+    expect(replayGame.getCoverage()).toBe(game.getCoverage());
+  });
+
+  it('should autosave on level transitions and resume from the snapshot', () => {
+    game.stop();
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    game = new Game(canvas, { targetCoverage: 45, seed: SEED });
+    now = 0;
+
+    expect(localStorage.getItem(AUTOSAVE_KEY), 'Nothing should be saved before a transition').toBeNull();
+
+    hold('ArrowUp', ' ');
+    runUntil(() => game.getLevel() === 2, 500);
+    releaseAll('ArrowUp', ' ');
+
+    const saved = localStorage.getItem(AUTOSAVE_KEY);
+    expect(saved, 'Level transition should autosave').not.toBeNull();
+
+    const resumed = Game.fromSnapshot(canvas, saved!);
+    expect(resumed.getLevel(), 'Resumed game should be on level 2').toBe(2);
+    expect(resumed.getScore(), 'Resumed game should keep the score').toBe(game.getScore());
+    expect(resumed.getLives()).toBe(game.getLives());
+    const older = saved!.replace(`"version":${SNAPSHOT_VERSION}`, `"version":${SNAPSHOT_VERSION - 1}`);
+    expect(() => Game.fromSnapshot(canvas, older)).toThrow(`Unsupported snapshot version: ${SNAPSHOT_VERSION - 1}`);
+  });
+
+  it('should split the keyboard between two players', () => {
+    game.stop();
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+    const renderer = new AsciiRenderer();
+    game = new Game(canvas, { seed: SEED, mode: 'versus', renderer, storage: null });
+    const simulation = game.getSimulation();
+
+    hold('w', 'q');
+    tick(10);
+    releaseAll('w', 'q');
+    expect(simulation.getPlayer(1).mode, 'WASD and Q should draw for player 2').toBe(PlayerMode.DRAW);
+    expect(simulation.getPlayer(0).mode, 'Player 1 should not move').toBe(PlayerMode.TRAVERSE);
+
+    hold('ArrowUp', '/');
+    tick(10);
+    releaseAll('ArrowUp', '/');
+    expect(simulation.getPlayer(0).mode, 'Arrows and / should draw for player 1').toBe(PlayerMode.DRAW);
+    expect(renderer.toString()).toContain('Lives: 3/3');
+    expect(renderer.toString()).toContain('Owned: ');
+  });
+
+  describe('states', () => {
+    const tap = (key: string): void => {
+      press(key);
+      tick();
+      release(key);
+    };
+
+    it('should wait on the title screen until confirmed', () => {
+      game.stop();
+      const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+      game = new Game(canvas, { seed: SEED, title: true });
+      const [qix] = game.getQix();
+      const start = { x: qix.x, y: qix.y };
+
+      tick(20);
+      expect(game.getState()).toBe(GameState.TITLE);
+      expect(game.getQix()[0], 'Nothing should move on the title screen').toMatchObject(start);
+
+      tap('Enter');
+      expect(game.getState()).toBe(GameState.PLAYING);
+    });
+
+    it('should let the autopilot play a demo behind the title screen', () => {
+      game.stop();
+      const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+      game = new Game(canvas, { seed: SEED, title: true });
+      const demo = game.getDemoSimulation()!;
+      expect(demo).not.toBeNull();
+      const coverage = game.getCoverage();
+
+      expect(
+        runUntil(() => demo.getCoverage() > coverage, 2000),
+        'The autopilot should capture something',
+      ).toBe(true);
+      expect(game.getSimulation().getTick(), 'The real game should not have started').toBe(0);
+      expect(game.getCoverage()).toBe(coverage);
+
+      tap('Enter');
+      expect(game.getState()).toBe(GameState.PLAYING);
+      expect(game.getDemoSimulation(), 'The demo should stop when the game starts').toBeNull();
+    });
+
+    it('should leave the title screen empty when attract mode is off', () => {
+      game.stop();
+      const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+      game = new Game(canvas, { seed: SEED, title: true, attract: false });
+      expect(game.getDemoSimulation()).toBeNull();
+    });
+
+    it('should pause on P or Escape and when the page is hidden', () => {
+      tap('p');
+      expect(game.getState()).toBe(GameState.PAUSED);
+      const [qix] = game.getQix();
+      const pausedAt = { x: qix.x, y: qix.y };
+      tick(20);
+      expect(game.getQix()[0], 'Game should stand still while paused').toMatchObject(pausedAt);
+
+      tap('Escape');
+      expect(game.getState()).toBe(GameState.PLAYING);
+
+      Object.defineProperty(document, 'hidden', { value: true, configurable: true });
+      try {
+        document.dispatchEvent(new Event('visibilitychange'));
+      } finally {
+        delete (document as { hidden?: boolean }).hidden;
+      }
+      expect(game.getState(), 'Hiding the tab should pause').toBe(GameState.PAUSED);
+    });
+
+    it('should start, pause and resume with the gamepad Start button but not confirm with the draw button', () => {
+      game.stop();
+      const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+      game = new Game(canvas, { seed: SEED, title: true });
+      const buttons = Array.from({ length: 17 }, () => ({ pressed: false, touched: false, value: 0 }));
+      const pad = { index: 0, connected: true, axes: [0, 0], buttons };
+      const original = Object.getOwnPropertyDescriptor(navigator, 'getGamepads');
+      Object.defineProperty(navigator, 'getGamepads', { value: () => [pad], configurable: true });
+      const tapButton = (index: number): void => {
+        buttons[index].pressed = true;
+        tick();
+        buttons[index].pressed = false;
+        tick();
+      };
+
+      try {
+        tapButton(0);
+        expect(game.getState(), 'The draw button should not confirm').toBe(GameState.TITLE);
+        tapButton(9);
+        expect(game.getState(), 'Start should confirm on the title screen').toBe(GameState.PLAYING);
+        tapButton(9);
+        expect(game.getState(), 'Start should pause').toBe(GameState.PAUSED);
+        tapButton(9);
+        expect(game.getState(), 'Start should resume').toBe(GameState.PLAYING);
+      } finally {
+        if (original) {
+          Object.defineProperty(navigator, 'getGamepads', original);
+        } else {
+          delete (navigator as { getGamepads?: unknown }).getGamepads;
+        }
+      }
+    });
+
+    it('should hold the finished level on screen until confirmed', () => {
+      game.stop();
+      const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+      game = new Game(canvas, { targetCoverage: 45, seed: SEED });
+
+      hold('ArrowUp', ' ');
+      runUntil(() => game.getState() === GameState.LEVEL_COMPLETE, 500);
+      releaseAll('ArrowUp', ' ');
+      expect(game.getLevel()).toBe(2);
+
+      const [qix] = game.getQix();
+      const waitingAt = { x: qix.x, y: qix.y };
+      tick(10);
+      expect(game.getQix()[0], 'Next level should not start behind the screen').toMatchObject(waitingAt);
+
+      tap('Enter');
+      expect(game.getState()).toBe(GameState.PLAYING);
+    });
+
+    it('should restart from game over without a new Game', () => {
+      for (let attempt = 0; attempt < 5 && !game.isGameOver(); attempt++) {
+        crashIntoOwnLine();
+      }
+      expect(game.getState()).toBe(GameState.GAME_OVER);
+
+      tap('Enter');
+
+      expect(game.getState()).toBe(GameState.PLAYING);
+      expect(game.getLives()).toBe(3);
+      expect(game.getScore()).toBe(0);
+      expect(game.getCoverage(), 'Board should be fresh').toBeLessThan(5);
+    });
+  });
 });
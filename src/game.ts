@@ -1,150 +1,467 @@
-import { Grid, CellType } from './grid';
-import { Player, createPlayer, movePlayer } from './player';
-import { InputHandler, Direction } from './input';
-import { Renderer } from './renderer';
+import { Grid, Point } from './grid';
+import { Player, PlayMode } from './player';
+import { InputHandler, InputBindings, InputState, Action, Command, NO_INPUT, TWO_PLAYER_BINDINGS } from './input';
+import { Renderer, GameRenderer } from './renderer';
+import { Qix } from './qix';
+import { Sparx } from './sparx';
+import { Simulation, GameEvents, TICK_DURATION } from './simulation';
+import { Recording, InputRecorder, ReplayInput, exportRecording } from './recording';
+import { SimulationSnapshot, decodeSnapshot, encodeSnapshot } from './snapshot';
+import { LevelDefinition } from './levels';
+import { getLocalStorage, KeyValueStorage } from './storage';
+import { StateMachine } from './states';
+import { EventBus, Listener } from './events';
+import { HighScoreTable, InitialsEntry } from './highscores';
+import { LockstepClient } from './netplay';
+import { Autopilot } from './autopilot';
+import { createRandom } from './random';
+import { Difficulty } from './difficulty';
+
+const MAX_FRAME_TIME = 250; // ms of game time a single frame may catch up on
+const LEVEL_COMPLETE_TIME = 3000; // ms the level complete screen stays up unless skipped
+export const AUTOSAVE_KEY = 'qix.autosave';
+
+export enum GameState {
+  TITLE = 'title',
+  PLAYING = 'playing',
+  PAUSED = 'paused',
+  LEVEL_COMPLETE = 'levelComplete',
+  ENTER_INITIALS = 'enterInitials',
+  GAME_OVER = 'gameOver',
+}
 
-const GRID_SIZE = 100;
-const MOVE_INTERVAL = 30; // ms between moves (same for both modes)
-const DEFAULT_TARGET_COVERAGE = 75;
-const STARTING_LIVES = 3;
+// Every state can go back to TITLE or PLAYING, which is how restart() starts over
+const TRANSITIONS: Readonly<Record<GameState, ReadonlyArray<GameState>>> = {
+  [GameState.TITLE]: [GameState.TITLE, GameState.PLAYING],
+  [GameState.PLAYING]: [
+    GameState.TITLE,
+    GameState.PLAYING,
+    GameState.PAUSED,
+    GameState.LEVEL_COMPLETE,
+    GameState.ENTER_INITIALS,
+    GameState.GAME_OVER,
+  ],
+  [GameState.PAUSED]: [GameState.TITLE, GameState.PLAYING],
+  [GameState.LEVEL_COMPLETE]: [GameState.TITLE, GameState.PLAYING],
+  [GameState.ENTER_INITIALS]: [GameState.TITLE, GameState.PLAYING, GameState.GAME_OVER],
+  [GameState.GAME_OVER]: [GameState.TITLE, GameState.PLAYING],
+};
+
+// The level just finished, kept for the level complete screen after the simulation has moved on
+interface CompletedLevel {
+  level: number;
+  grid: Grid;
+}
 
-export class Game {
-  private grid: Grid;
-  private player: Player;
-  private inputHandler: InputHandler;
-  private renderer: Renderer;
-  private level: number = 1;
-  private lives: number = STARTING_LIVES;
-  private lastMoveTime: number = 0;
-  private gameOver: boolean = false;
-  private animationId: number | null = null;
-  private targetCoverage: number;
+// Attract mode: a game of its own that the autopilot plays behind the title screen
+interface Demo {
+  simulation: Simulation;
+  pilot: Autopilot;
+  pendingTime: number;
+}
 
-  constructor(canvas: HTMLCanvasElement, options: { targetCoverage?: number } = {}) {
-    this.targetCoverage = options.targetCoverage ?? DEFAULT_TARGET_COVERAGE;
-    this.grid = new Grid(GRID_SIZE, GRID_SIZE);
-    this.player = createPlayer(this.grid);
-    this.inputHandler = new InputHandler();
-    this.renderer = new Renderer(canvas, this.grid);
+export interface GameOptions {
+  levels?: LevelDefinition[]; // level list to play through; defaults to the built-in levels
+  targetCoverage?: number; // overrides every level's target
+  seed?: number;
+  replay?: Recording; // takes the seed, options and starting state from the recording and ignores the keyboard
+  snapshot?: SimulationSnapshot; // resume a saved game
+  storage?: KeyValueStorage | null; // holds the autosave, key bindings and high scores; defaults to localStorage
+  renderer?: GameRenderer; // defaults to drawing on the canvas
+  title?: boolean; // open on the title screen instead of playing straight away
+  highScores?: HighScoreTable; // defaults to the table kept in storage
+  mode?: PlayMode; // one player, or two sharing the keyboard in co-op or versus; defaults to one
+  online?: LockstepClient; // play an online match that has started; the client owns the simulation
+  attract?: boolean; // let the autopilot play a demo behind the title screen; defaults to on
+  difficulty?: Difficulty; // defaults to normal
+}
 
-    this.renderer.updateUI(this.grid.getCoverage(), this.level, this.lives);
+// Browser shell: drives the headless Simulation from requestAnimationFrame, the keyboard and the canvas
+export class Game {
+  private simulation: Simulation;
+  private inputHandlers: InputHandler[]; // one per player; only player 1's gives menu commands
+  private renderer: GameRenderer;
+  private states: StateMachine<GameState>;
+  private animationId: number | null = null;
+  private lastTimestamp: number = 0;
+  private pendingTime: number = 0;
+  private recorder: InputRecorder;
+  private replay: ReplayInput | null = null;
+  private online: LockstepClient | null;
+  private storage: KeyValueStorage | null;
+  private completed: CompletedLevel | null = null;
+  private demo: Demo | null = null;
+  private demoSeed: number;
+  private levelCompleteTime: number = 0; // ms left before the next level starts by itself
+  private options: GameOptions;
+  private events: EventBus<GameEvents>;
+  private highScores: HighScoreTable;
+  private initials: InitialsEntry | null = null;
+  private lastInput: InputState = NO_INPUT; // for reacting to presses rather than holds on the initials screen
+  private shownSeconds: number | null = null; // time left on the HUD, which changes without any event
+
+  constructor(canvas: HTMLCanvasElement, options: GameOptions = {}) {
+    const seed = options.online?.getSeed() ?? options.replay?.seed ?? options.seed ?? Date.now();
+    const targetCoverage = options.replay ? options.replay.targetCoverage : options.targetCoverage;
+    const levels = options.replay ? options.replay.levels : options.levels;
+    const snapshot = options.replay ? options.replay.snapshot : options.snapshot;
+    const mode = options.replay ? options.replay.mode : options.mode;
+    const difficulty = options.replay ? options.replay.difficulty : options.difficulty;
+    this.options = options;
+    this.demoSeed = seed;
+    this.online = options.online ?? null;
+    this.events = this.online?.getGameEvents() ?? new EventBus();
+    if (this.online) {
+      this.simulation = this.online.getSimulation();
+    } else {
+      this.simulation = snapshot
+        ? Simulation.fromSnapshot(snapshot, this.events)
+        : new Simulation({ levels, targetCoverage, seed, mode, difficulty, events: this.events });
+    }
+    this.recorder = new InputRecorder(seed, {
+      targetCoverage,
+      levels,
+      snapshot,
+      mode: this.simulation.getMode(),
+      difficulty: this.simulation.getDifficulty(),
+    });
+    this.storage = options.storage === undefined ? getLocalStorage() : options.storage;
+    if (options.replay) {
+      this.replay = new ReplayInput(options.replay);
+    }
+    this.highScores = options.highScores ?? new HighScoreTable(this.storage);
+    // Online, the keyboard only steers this side's player
+    this.inputHandlers = createInputHandlers(this.online ? 'single' : this.simulation.getMode(), this.storage, canvas);
+    this.renderer = options.renderer ?? new Renderer(canvas, this.simulation.getGrid());
+
+    this.states = new StateMachine<GameState>(options.title ? GameState.TITLE : GameState.PLAYING, TRANSITIONS);
+    this.states.onEnter(GameState.TITLE, () => {
+      this.renderer.showOverlay({ type: 'title' });
+      this.startDemo();
+    });
+    this.states.onExit(GameState.TITLE, () => (this.demo = null));
+    this.states.onEnter(GameState.PAUSED, () => this.renderer.showOverlay({ type: 'paused' }));
+    this.states.onEnter(GameState.PLAYING, () => {
+      // Time spent on other screens is not game time
+      this.pendingTime = 0;
+      this.renderer.showOverlay(null);
+    });
+    this.states.onEnter(GameState.LEVEL_COMPLETE, () => {
+      const { level, grid } = this.completed!;
+      this.levelCompleteTime = LEVEL_COMPLETE_TIME;
+      this.renderer.showOverlay({ type: 'levelComplete', level, coverage: grid.getCoverage() });
+      this.autosave();
+    });
+    this.states.onExit(GameState.LEVEL_COMPLETE, () => (this.completed = null));
+    this.states.onEnter(GameState.ENTER_INITIALS, () => {
+      this.initials = new InitialsEntry();
+      this.lastInput = this.inputHandlers[0].getState();
+      this.showInitials();
+    });
+    this.states.onExit(GameState.ENTER_INITIALS, () => (this.initials = null));
+    this.states.onEnter(GameState.GAME_OVER, () => {
+      const winner = this.simulation.getMode() === 'versus' ? this.simulation.getWinner() : undefined;
+      this.renderer.showOverlay({ type: 'gameOver', score: this.simulation.getScore(), highScores: this.highScores.getEntries(), winner });
+    });
+    this.states.start();
+
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    // The HUD only changes when something happens, so it follows the events instead of polling each frame
+    this.events.on('shapeCaptured', this.updateUI);
+    this.events.on('lifeLost', this.updateUI);
+    this.events.on('levelCompleted', this.updateUI);
+    this.events.on('powerUpCollected', this.updateUI);
+    this.events.on('lifeLost', ({ x, y }) => this.renderer.playEffect?.({ type: 'burst', x, y }));
+    this.updateUI();
   }
 
   start(): void {
-    this.gameLoop();
+    this.lastTimestamp = performance.now();
+    this.gameLoop(this.lastTimestamp);
   }
 
+  // Keeps running on every screen, so commands are read and overlays drawn while the game stands still
   private gameLoop = (timestamp: number = 0): void => {
-    if (this.gameOver) {
-      return;
-    }
-
     this.update(timestamp);
-    this.renderer.render(this.grid, this.player);
+    const simulation = this.demo?.simulation ?? this.simulation;
+    this.renderer.render(
+      this.completed?.grid ?? simulation.getGrid(),
+      simulation.getPlayers(),
+      simulation.getQix(),
+      simulation.getSparx(),
+      simulation.getFusePositions(),
+      simulation.getPowerUps()
+    );
 
     this.animationId = requestAnimationFrame(this.gameLoop);
   };
 
+  // Handle the commands given since the last frame, then advance whatever the current state does with time
   update(timestamp: number): void {
-    const interval = MOVE_INTERVAL;
+    const elapsed = Math.min(timestamp - this.lastTimestamp, MAX_FRAME_TIME);
+    this.lastTimestamp = timestamp;
 
-    if (timestamp - this.lastMoveTime < interval) {
-      return;
+    for (const command of this.inputHandlers.flatMap((handler) => handler.takeCommands())) {
+      this.handleCommand(command);
     }
 
-    this.lastMoveTime = timestamp;
+    if (this.states.is(GameState.PLAYING)) {
+      this.advance(elapsed);
+    } else if (this.states.is(GameState.LEVEL_COMPLETE)) {
+      this.levelCompleteTime -= elapsed;
+      if (this.levelCompleteTime <= 0) {
+        this.states.transition(GameState.PLAYING);
+      }
+    } else if (this.states.is(GameState.ENTER_INITIALS)) {
+      this.chooseInitials();
+    } else if (this.demo) {
+      this.advanceDemo(elapsed);
+    }
+  }
 
-    // Get input direction
-    const direction = this.inputHandler.getContinuousDirection();
-    if (direction === null) {
+  // A fresh demo each time, on the game's levels; its events go nowhere, so it makes no sound
+  private startDemo(): void {
+    if (this.options.attract === false) {
       return;
     }
+    const seed = this.demoSeed++;
+    const simulation = new Simulation({ levels: this.options.levels, seed, difficulty: this.options.difficulty });
+    this.demo = { simulation, pilot: new Autopilot(simulation, { random: createRandom(seed) }), pendingTime: 0 };
+  }
+
+  // The demo starts over when the autopilot loses its last life or clears the first level
+  private advanceDemo(elapsed: number): void {
+    const demo = this.demo!;
+    demo.pendingTime += elapsed;
+    while (demo.pendingTime >= TICK_DURATION) {
+      demo.simulation.step(demo.pilot.getState());
+      demo.pendingTime -= TICK_DURATION;
+      if (demo.simulation.isGameOver() || demo.simulation.getLevel() > 1) {
+        this.startDemo();
+        return;
+      }
+    }
+  }
+
+  // Step the simulation for the game time elapsed, sampling the input once per frame.
+  // Stops at the end of a level so the next one does not start behind the level complete screen.
+  // Online, the client steps the simulation once the partner's input arrives; until then time is
+  // kept, up to a frame's worth, to catch up with.
+  private advance(elapsed: number): void {
+    this.pendingTime += elapsed;
+
+    const liveInput = this.inputHandlers.map((handler) => handler.getState());
+    while (this.pendingTime >= TICK_DURATION && !this.simulation.isGameOver()) {
+      const grid = this.simulation.getGrid();
+      const level = this.simulation.getLevel();
+      const input = this.online ? this.online.tick(liveInput[0]) : this.replay ? this.replay.next() : liveInput;
+      if (!input) {
+        this.pendingTime = Math.min(this.pendingTime, MAX_FRAME_TIME);
+        break;
+      }
+      this.recorder.record(input);
+      if (!this.online) {
+        this.simulation.step(input);
+      }
+      this.pendingTime -= TICK_DURATION;
+      if (this.simulation.getLevel() !== level) {
+        this.completed = { level, grid };
+        break;
+      }
+    }
+    if (this.getSecondsLeft() !== this.shownSeconds) {
+      this.updateUI();
+    }
 
-    // Move player
-    const result = movePlayer(this.player, this.grid, direction, this.inputHandler);
+    if (this.simulation.isGameOver()) {
+      this.endGame();
+    } else if (this.completed) {
+      this.states.transition(GameState.LEVEL_COMPLETE);
+    }
+  }
 
-    if (result.died) {
-      this.handleDeath();
+  // Replays neither touch the player's autosave nor earn a place in the high scores. Neither does
+  // a versus match, whose score belongs to both rivals. Online games leave the autosave alone too.
+  private endGame(): void {
+    if (this.replay) {
+      this.states.transition(GameState.GAME_OVER);
       return;
     }
+    if (!this.online) {
+      this.storage?.removeItem(AUTOSAVE_KEY);
+    }
+    const ranked = this.simulation.getMode() !== 'versus' && this.highScores.qualifies(this.simulation.getScore());
+    this.states.transition(ranked ? GameState.ENTER_INITIALS : GameState.GAME_OVER);
+  }
 
-    if (result.gameOver) {
-      this.handleGameOver();
+  // Up and down change the letter, left goes back one, right moves on like confirm
+  private chooseInitials(): void {
+    const input = this.inputHandlers[0].getState();
+    const previous = this.lastInput;
+    const pressed = (action: Action): boolean => input[action] && !previous[action];
+    this.lastInput = input;
+
+    if (pressed('up')) {
+      this.initials!.cycle(1);
+    } else if (pressed('down')) {
+      this.initials!.cycle(-1);
+    } else if (pressed('left')) {
+      this.initials!.back();
+    } else if (pressed('right')) {
+      this.confirmInitial();
+      return;
+    } else {
       return;
     }
+    this.showInitials();
+  }
 
-    // Handle shape completion
-    if (result.completedShape && result.capturedPath) {
-      this.handleShapeCompletion(result.capturedPath);
+  private confirmInitial(): void {
+    if (!this.initials!.confirm()) {
+      this.showInitials();
+      return;
     }
+    this.highScores.add({
+      initials: this.initials!.getInitials(),
+      score: this.simulation.getScore(),
+      level: this.simulation.getLevel(),
+      coverage: this.simulation.getTotalCoverage(),
+      date: new Date().toISOString(),
+    });
+    this.states.transition(GameState.GAME_OVER);
+  }
 
-    // Update UI
-    this.renderer.updateUI(this.grid.getCoverage(), this.level, this.lives);
+  private showInitials(): void {
+    const initials = this.initials!;
+    this.renderer.showOverlay({ type: 'initials', score: this.simulation.getScore(), initials: initials.getInitials(), cursor: initials.getCursor() });
+  }
 
-    // Check for level complete
-    if (this.grid.getCoverage() >= this.targetCoverage) {
-      this.nextLevel();
+  private handleCommand(command: Command): void {
+    if (command === 'start') {
+      this.handleCommand(this.states.is(GameState.PLAYING) ? 'pause' : 'confirm');
+      return;
+    }
+    if (command === 'confirm') {
+      this.renderer.skipAnimations?.();
+    }
+    switch (this.states.getState()) {
+      case GameState.TITLE:
+        if (command === 'confirm') this.states.transition(GameState.PLAYING);
+        break;
+      case GameState.PLAYING:
+        if (command === 'pause') this.pause();
+        break;
+      case GameState.PAUSED:
+        this.states.transition(GameState.PLAYING);
+        break;
+      case GameState.LEVEL_COMPLETE:
+        if (command === 'confirm') this.states.transition(GameState.PLAYING);
+        break;
+      case GameState.ENTER_INITIALS:
+        if (command === 'confirm') this.confirmInitial();
+        break;
+      case GameState.GAME_OVER:
+        if (command === 'confirm') this.restart();
+        break;
     }
   }
 
-  private handleShapeCompletion(capturedPath: Array<{ x: number; y: number }>): void {
-    // Capture the territory using flood fill
-    this.grid.captureTerritory(capturedPath);
-  }
+  // Switching tabs pauses, since the browser stops sending frames anyway
+  private onVisibilityChange = (): void => {
+    if (document.hidden) {
+      this.pause();
+    }
+  };
 
-  private nextLevel(): void {
-    this.level++;
+  getState(): GameState {
+    return this.states.getState();
+  }
 
-    // Reset grid
-    this.grid = new Grid(GRID_SIZE, GRID_SIZE);
-    this.player = createPlayer(this.grid);
+  // Leave the title screen
+  play(): void {
+    if (this.states.is(GameState.TITLE)) {
+      this.states.transition(GameState.PLAYING);
+    }
+  }
 
-    // Flash effect or delay could go here
-    this.renderer.updateUI(this.grid.getCoverage(), this.level, this.lives);
+  // Online games cannot pause, since the partner would be left waiting
+  pause(): void {
+    if (this.states.is(GameState.PLAYING) && !this.online) {
+      this.states.transition(GameState.PAUSED);
+    }
   }
 
-  private handleDeath(): void {
-    this.lives--;
+  resume(): void {
+    if (this.states.is(GameState.PAUSED)) {
+      this.states.transition(GameState.PLAYING);
+    }
+  }
 
-    if (this.lives <= 0) {
-      this.handleGameOver();
+  // Start over from level 1 with the same options and players, without reloading the page.
+  // A replay restarts as a game played from the keyboard. An online match ends for good, as a
+  // new one needs a partner found by the relay.
+  restart(): void {
+    if (this.online) {
       return;
     }
+    const { levels, targetCoverage } = this.options.replay ?? this.options;
+    const seed = this.options.seed ?? Date.now();
+    const mode = this.simulation.getMode();
+    const difficulty = this.simulation.getDifficulty();
+    this.simulation = new Simulation({ levels, targetCoverage, seed, mode, difficulty, events: this.events });
+    this.recorder = new InputRecorder(seed, { targetCoverage, levels, mode, difficulty });
+    if (!this.replay) {
+      this.storage?.removeItem(AUTOSAVE_KEY);
+    }
+    this.replay = null;
+    this.completed = null;
+    this.updateUI();
+    this.states.transition(this.options.title ? GameState.TITLE : GameState.PLAYING);
+  }
 
-    // Clear only the incomplete line the player was currently drawing
-    for (const point of this.player.linePath) {
-      this.grid.setCell(point.x, point.y, CellType.EMPTY);
+  // Replays and online games are never saved over the player's own progress
+  private autosave(): void {
+    if (!this.storage || this.replay || this.online) {
+      return;
+    }
+    try {
+      this.storage.setItem(AUTOSAVE_KEY, this.serialize());
+    } catch (error) {
+      console.warn('Autosave failed:', error);
     }
+  }
 
-    // Reset player to starting position (bottom center)
-    this.player = createPlayer(this.grid);
+  serialize(): string {
+    return encodeSnapshot(this.simulation.serialize());
+  }
 
-    // Update UI
-    this.renderer.updateUI(this.grid.getCoverage(), this.level, this.lives);
+  // Resume a game saved with serialize(); throws if the snapshot is malformed or from another version
+  static fromSnapshot(canvas: HTMLCanvasElement, json: string, options: Omit<GameOptions, 'snapshot' | 'replay'> = {}): Game {
+    return new Game(canvas, { ...options, snapshot: decodeSnapshot(json) });
   }
 
-  private handleGameOver(): void {
-    this.gameOver = true;
-    if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId);
-    }
+  private updateUI = (): void => {
+    const simulation = this.simulation;
+    const players = simulation.getPlayers().map((_, index) => index);
+    const owned = simulation.getMode() === 'versus' ? players.map((index) => simulation.getOwnedCoverage(index)) : undefined;
+    const lives = players.map((index) => simulation.getLives(index));
+    this.renderer.updateUI(simulation.getCoverage(), simulation.getLevel(), lives, simulation.getScore(), owned);
+    this.shownSeconds = this.getSecondsLeft();
+    this.renderer.updateDifficulty?.(simulation.getDifficulty(), simulation.getLevelParameters(), simulation.getTimeLeft());
+  };
 
-    // Show game over message
-    const canvas = this.renderer['canvas'];
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
+  private getSecondsLeft(): number | null {
+    const timeLeft = this.simulation.getTimeLeft();
+    return timeLeft === null ? null : Math.ceil(timeLeft / 1000);
+  }
 
-      ctx.fillStyle = '#e94560';
-      ctx.font = '48px Courier New';
-      ctx.textAlign = 'center';
-      ctx.fillText('GAME OVER', canvas.width / 2, canvas.height / 2);
+  // Subscribe to what happens in the game, across restarts; returns a function that unsubscribes
+  on<K extends keyof GameEvents>(type: K, listener: Listener<GameEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
 
-      ctx.fillStyle = '#fff';
-      ctx.font = '24px Courier New';
-      ctx.fillText('Refresh to restart', canvas.width / 2, canvas.height / 2 + 50);
-    }
+  off<K extends keyof GameEvents>(type: K, listener: Listener<GameEvents[K]>): void {
+    this.events.off(type, listener);
   }
 
   stop(): void {
@@ -154,33 +471,97 @@ export class Game {
     }
   }
 
+  // Stop for good: also removes the input listeners and leaves an online game
+  dispose(): void {
+    this.stop();
+    this.online?.leave();
+    this.inputHandlers.forEach((handler) => handler.dispose());
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  // Recording of every tick played so far, as JSON
+  exportRecording(): string {
+    return exportRecording(this.recorder.toRecording());
+  }
+
+  isReplaying(): boolean {
+    return this.replay !== null;
+  }
+
   // Test helpers
+  getSimulation(): Simulation {
+    return this.simulation;
+  }
+
+  getDemoSimulation(): Simulation | null {
+    return this.demo?.simulation ?? null;
+  }
+
   getGrid(): Grid {
-    return this.grid;
+    return this.simulation.getGrid();
   }
 
   getPlayer(): Player {
-    return this.player;
+    return this.simulation.getPlayer();
   }
 
   getLevel(): number {
-    return this.level;
+    return this.simulation.getLevel();
   }
 
   getCoverage(): number {
-    return this.grid.getCoverage();
+    return this.simulation.getCoverage();
+  }
+
+  getQix(): Qix[] {
+    return this.simulation.getQix();
+  }
+
+  getSparx(): Sparx[] {
+    return this.simulation.getSparx();
+  }
+
+  getFusePosition(): Point | null {
+    return this.simulation.getFusePosition();
+  }
+
+  getLives(player: number = 0): number {
+    return this.simulation.getLives(player);
   }
 
-  getLives(): number {
-    return this.lives;
+  getScore(): number {
+    return this.simulation.getScore();
   }
 
   isGameOver(): boolean {
-    return this.gameOver;
+    return this.simulation.isGameOver();
   }
 
   // Test helper: simulate keyboard input
   simulateKeyPress(key: string, pressed: boolean): void {
-    this.inputHandler['simulateKeyPress'](key, pressed);
+    this.inputHandlers.forEach((handler) => handler.simulateKeyPress(key, pressed));
+  }
+
+  // Test helper: switch an action on or off regardless of key bindings
+  simulateAction(action: Action, active: boolean, player: number = 0): void {
+    this.inputHandlers[player].simulateAction(action, active);
+  }
+}
+
+// One player keeps their saved bindings and every gamepad. Two players split the keyboard and take
+// a gamepad each; player 1 also keeps touch control and the menu commands.
+function createInputHandlers(mode: PlayMode, storage: KeyValueStorage | null, canvas: HTMLCanvasElement): InputHandler[] {
+  if (mode === 'single') {
+    return [new InputHandler({ storage, touchTarget: canvas })];
   }
+  return TWO_PLAYER_BINDINGS.map(
+    (bindings, index) =>
+      new InputHandler({
+        bindings: structuredClone(bindings) as InputBindings,
+        storage: null,
+        touchTarget: index === 0 ? canvas : null,
+        gamepad: index,
+        commands: index === 0,
+      })
+  );
 }
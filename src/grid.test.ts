@@ -0,0 +1,259 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Grid, CellType, Point } from './grid';
+
+describe('Grid', () => {
+  // Draw a LINE along a path of points, like the player does, and return the path
+  const drawLine = (grid: Grid, points: Point[]): Point[] => {
+    points.forEach((p) => grid.setLine(p.x, p.y));
+    return points;
+  };
+
+  const column = (x: number, fromY: number, toY: number): Point[] =>
+    Array.from({ length: toY - fromY + 1 }, (_, i) => ({ x, y: fromY + i }));
+
+  const row = (y: number, fromX: number, toX: number): Point[] => Array.from({ length: toX - fromX + 1 }, (_, i) => ({ x: fromX + i, y }));
+
+  const countNonEmpty = (grid: Grid): number => grid.getWidth() * grid.getHeight() - grid.getEmptyCells().length;
+
+  it('should fill the smaller side of a line across the board', () => {
+    const grid = new Grid(100, 100);
+    const line = drawLine(grid, column(30, 1, 98));
+
+    const capture = grid.captureTerritory(line);
+
+    expect(capture).toEqual({ cellsFilled: 29 * 98, lineCells: 98, regions: 1, collected: [] });
+    expect(grid.getCell(10, 50)).toBe(CellType.FILLED);
+    expect(grid.getCell(60, 50), 'Larger side should stay open').toBe(CellType.EMPTY);
+    expect(grid.getCell(30, 50), 'Line should stay a line').toBe(CellType.LINE);
+  });
+
+  it('should fill nothing when the line encloses no region', () => {
+    const grid = new Grid(50, 50);
+    const line = drawLine(grid, column(25, 1, 10));
+
+    expect(grid.captureTerritory(line)).toEqual({ cellsFilled: 0, lineCells: 10, regions: 0, collected: [] });
+    expect(grid.getCoverage()).toBeCloseTo((countNonEmpty(grid) / 2500) * 100);
+  });
+
+  it('should fill every enclosed pocket but the largest region', () => {
+    const grid = new Grid(60, 60);
+    // A comb: one long row with teeth hanging down, cutting off three pockets below it
+    const line = drawLine(grid, [...row(40, 1, 58), ...column(10, 41, 58), ...column(20, 41, 58), ...column(30, 41, 58)]);
+
+    const capture = grid.captureTerritory(line, CellType.SLOW_FILLED);
+
+    expect(capture.regions).toBe(4);
+    expect(grid.getCell(5, 50)).toBe(CellType.SLOW_FILLED);
+    expect(grid.getCell(45, 50), 'Widest pocket below the row should be filled').toBe(CellType.SLOW_FILLED);
+    expect(grid.getCell(30, 20), 'Area above the row is the largest and stays open').toBe(CellType.EMPTY);
+  });
+
+  describe('capture rules', () => {
+    it('should fill every region without an enemy, however large', () => {
+      const grid = new Grid(100, 100);
+      const line = drawLine(grid, column(30, 1, 98));
+
+      const capture = grid.captureTerritory(line, CellType.FILLED, 'enemy', [{ x: 10, y: 50 }]);
+
+      expect(capture.regions).toBe(1);
+      expect(grid.getCell(60, 50), 'Larger side without the Qix should be filled').toBe(CellType.FILLED);
+      expect(grid.getCell(10, 50), 'Side with the Qix should stay open').toBe(CellType.EMPTY);
+    });
+
+    it('should keep every region that holds an enemy', () => {
+      const grid = new Grid(100, 100);
+      const line = drawLine(grid, [...column(30, 1, 98), ...column(60, 1, 98)]);
+
+      const capture = grid.captureTerritory(line, CellType.FILLED, 'enemy', [
+        { x: 10, y: 50 },
+        { x: 80, y: 50 },
+      ]);
+
+      expect(capture).toEqual({ cellsFilled: 29 * 98, lineCells: 196, regions: 1, collected: [] });
+      expect(grid.getCell(45, 50), 'Middle strip has no enemy').toBe(CellType.FILLED);
+      expect(grid.getCell(10, 50)).toBe(CellType.EMPTY);
+      expect(grid.getCell(80, 50)).toBe(CellType.EMPTY);
+    });
+
+    it('should split a board into equal halves by the explicit tie-break', () => {
+      // Inside the border the line at x=49 leaves columns 1-48 and 50-97: two halves of 48x98 cells
+      const grid = new Grid(99, 100);
+      const line = drawLine(grid, column(49, 1, 98));
+
+      const capture = grid.captureTerritory(line, CellType.FILLED, 'largest');
+
+      expect(capture.cellsFilled).toBe(48 * 98);
+      expect(grid.getCell(20, 50), 'Half starting first row by row stays open').toBe(CellType.EMPTY);
+      expect(grid.getCell(70, 50), 'Other half is captured').toBe(CellType.FILLED);
+    });
+
+    it('should capture a pocket nested inside an earlier capture', () => {
+      const grid = new Grid(60, 60);
+      const qix = [{ x: 30, y: 20 }];
+      // A U from the bottom border around the Qix: everything outside it is captured
+      grid.captureTerritory(
+        drawLine(grid, [...column(10, 10, 58), ...row(10, 11, 50), ...column(50, 11, 58)]),
+        CellType.FILLED,
+        'enemy',
+        qix,
+      );
+      expect(grid.getCell(5, 5), 'Outside of the U should be captured').toBe(CellType.FILLED);
+      expect(grid.getCell(30, 30)).toBe(CellType.EMPTY);
+
+      // Then a smaller pocket inside the U, from its left side down to the bottom border
+      const capture = grid.captureTerritory(drawLine(grid, [...row(40, 11, 20), ...column(20, 41, 58)]), CellType.FILLED, 'enemy', qix);
+
+      expect(capture).toEqual({ cellsFilled: 9 * 18, lineCells: 28, regions: 1, collected: [] });
+      expect(grid.getCell(15, 50), 'Nested pocket should be captured').toBe(CellType.FILLED);
+      expect(grid.getCell(30, 50), 'Rest of the U still holds the Qix').toBe(CellType.EMPTY);
+    });
+
+    it('should close pockets against earlier LINE cells', () => {
+      const grid = new Grid(60, 60);
+      grid.captureTerritory(drawLine(grid, column(30, 1, 58)), CellType.FILLED, 'enemy', [{ x: 45, y: 30 }]);
+      expect(grid.getCell(30, 30), 'Earlier line stays LINE').toBe(CellType.LINE);
+
+      // New line runs from the right border to the old line
+      const line = drawLine(grid, row(40, 31, 58));
+      const capture = grid.captureTerritory(line, CellType.SLOW_FILLED, 'enemy', [{ x: 45, y: 30 }]);
+
+      expect(capture).toEqual({ cellsFilled: 28 * 18, lineCells: 28, regions: 1, collected: [] });
+      expect(grid.getCell(45, 50)).toBe(CellType.SLOW_FILLED);
+      expect(grid.getCell(30, 50), 'Old line is a boundary, not captured').toBe(CellType.LINE);
+    });
+  });
+
+  describe('items', () => {
+    it('should collect the items inside the filled regions only', () => {
+      const grid = new Grid(100, 100);
+      const line = drawLine(grid, column(30, 1, 98));
+      const items = [
+        { x: 60, y: 50 },
+        { x: 10, y: 10 },
+        { x: 30, y: 40 },
+        { x: 29, y: 98 },
+      ];
+
+      const capture = grid.captureTerritory(line, CellType.FILLED, 'largest', [], 0, items);
+
+      expect(capture.collected, 'Items in the open side or on the line stay out').toEqual([1, 3]);
+    });
+
+    it('should fill the smallest open region but never the last one', () => {
+      const grid = new Grid(60, 60);
+      // Walls cut the board into a 10-wide strip, a 20-wide strip and the rest
+      for (const x of [11, 32]) column(x, 1, 58).forEach((p) => grid.setCell(p.x, p.y, CellType.BORDER));
+      expect(grid.getOpenRegions().map((region) => region.length)).toEqual([10 * 58, 20 * 58, 26 * 58]);
+
+      const fill = grid.fillSmallestRegion(CellType.SLOW_FILLED, 1, [{ x: 5, y: 5 }]);
+
+      expect(fill).toEqual({ cellsFilled: 10 * 58, lineCells: 0, regions: 1, collected: [0] });
+      expect(grid.getCell(5, 5)).toBe(CellType.SLOW_FILLED);
+      expect(grid.getOwner(5, 5)).toBe(1);
+      grid.fillSmallestRegion();
+      expect(grid.fillSmallestRegion().cellsFilled, 'The last open region should stay open').toBe(0);
+      expect(grid.getCell(50, 30)).toBe(CellType.EMPTY);
+    });
+
+    it('should not fill a region that holds a Qix', () => {
+      const grid = new Grid(60, 60);
+      for (const x of [11, 32]) column(x, 1, 58).forEach((p) => grid.setCell(p.x, p.y, CellType.BORDER));
+      const qix = { x: 5, y: 30 };
+      const fill = grid.fillSmallestRegion(CellType.FILLED, 0, [], [qix]);
+
+      expect(fill.cellsFilled, 'The 20-wide strip is the smallest without the Qix').toBe(20 * 58);
+      expect(grid.getCell(qix.x, qix.y)).toBe(CellType.EMPTY);
+      grid.fillSmallestRegion(CellType.FILLED, 0, [], [qix]);
+      expect(grid.getFillableRegions([qix]), 'Only the region with the Qix is left').toEqual([]);
+      expect(grid.getCell(50, 30), 'Every region but the Qix one may be filled').toBe(CellType.FILLED);
+    });
+  });
+
+  it('should keep the coverage counter in step with the cells', () => {
+    const grid = new Grid(40, 30);
+    drawLine(grid, column(20, 1, 28));
+    grid.setCell(5, 5, CellType.FILLED);
+    grid.setCell(5, 5, CellType.SLOW_FILLED);
+    grid.setCell(6, 6, CellType.FILLED);
+    grid.setCell(6, 6, CellType.EMPTY);
+    grid.captureTerritory(column(20, 1, 28));
+    grid.clearLines();
+
+    expect(grid.getCoverage()).toBeCloseTo((countNonEmpty(grid) / 1200) * 100);
+
+    const restored = Grid.fromRunLength(40, 30, grid.toRunLength());
+    expect(restored.getCoverage()).toBe(grid.getCoverage());
+  });
+
+  it('should keep the lines and captures of each player apart', () => {
+    const grid = new Grid(40, 30);
+    column(10, 1, 28).forEach((p) => grid.setLine(p.x, p.y, CellType.LINE, 0));
+    grid.captureTerritory(column(10, 1, 28), CellType.FILLED, 'largest', [], 0);
+    const second = column(30, 1, 28);
+    second.forEach((p) => grid.setLine(p.x, p.y, CellType.SLOW_LINE, 1));
+    grid.captureTerritory(second, CellType.SLOW_FILLED, 'largest', [], 1);
+
+    expect(grid.getOwner(5, 5)).toBe(0);
+    expect(grid.getOwner(35, 5)).toBe(1);
+    expect(grid.getOwner(20, 5), 'Open space belongs to nobody').toBeNull();
+    expect(grid.getOwner(0, 5), 'Border belongs to nobody').toBeNull();
+    expect(grid.getOwnedCoverage(0)).toBeCloseTo(((9 * 28 + 28) / 1200) * 100);
+    expect(grid.getOwnedCoverage(1)).toBeCloseTo(((8 * 28 + 28) / 1200) * 100);
+
+    grid.setCell(35, 5, CellType.EMPTY);
+    expect(grid.getOwner(35, 5), 'Emptied cells lose their owner').toBeNull();
+
+    const restored = Grid.fromRunLength(40, 30, grid.toRunLength(), grid.toOwnerRunLength());
+    expect(restored.getOwnedCoverage(1)).toBe(grid.getOwnedCoverage(1));
+    expect(restored.getOwner(5, 5)).toBe(0);
+  });
+
+  it('should track the line being drawn as it grows', () => {
+    const grid = new Grid(20, 20);
+    const path: Point[] = [{ x: 5, y: 19 }];
+
+    expect(grid.isOnLine(5, 19, path)).toBe(true);
+    expect(grid.isOnLine(5, 18, path)).toBe(false);
+
+    path.push({ x: 5, y: 18 });
+    expect(grid.isOnLine(5, 18, path), 'Points appended to the same path should be found').toBe(true);
+
+    expect(grid.isOnLine(5, 18, [{ x: 7, y: 7 }]), 'A new path should replace the old one').toBe(false);
+  });
+
+  it('should keep the lines of both players indexed when lookups alternate between them', () => {
+    const grid = new Grid(1000, 1000);
+    const lines = [row(300, 1, 998), row(600, 1, 998)];
+
+    let found = 0;
+    const started = performance.now();
+    for (let i = 0; i < 20000; i++) {
+      const line = lines[i % 2];
+      if (grid.isOnLine(i % 1000, line[0].y, line)) found++;
+    }
+    const elapsed = performance.now() - started;
+
+    expect(found, 'Only the border columns are off the lines').toBe(20000 - 40);
+    expect(elapsed, `Lookups took ${elapsed.toFixed(2)}ms`).toBeLessThan(50);
+  });
+
+  it('should capture on a 1000x1000 board in a few milliseconds', () => {
+    const grid = new Grid(1000, 1000);
+    const times: number[] = [];
+
+    // Cut 30 pockets of 29x98 cells off the bottom edge, one after another, as a game would
+    for (let i = 0; i < 30; i++) {
+      const left = 1 + i * 30;
+      const line = drawLine(grid, [...row(900, left, left + 29), ...column(left + 29, 901, 998)]);
+      const started = performance.now();
+      const capture = grid.captureTerritory(line);
+      times.push(performance.now() - started);
+      expect(capture.cellsFilled).toBe(29 * 98);
+    }
+
+    // Median, so a garbage collection pause in one capture does not fail the suite
+    const median = [...times].sort((a, b) => a - b)[times.length >> 1];
+    expect(median, `Median capture took ${median.toFixed(2)}ms`).toBeLessThan(5);
+  });
+});
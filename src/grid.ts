@@ -3,6 +3,8 @@ export enum CellType {
   FILLED = 1,
   BORDER = 2,
   LINE = 3,
+  SLOW_LINE = 4, // line drawn in slow-draw mode
+  SLOW_FILLED = 5, // territory captured by a slow-draw line
 }
 
 export interface Point {
@@ -10,6 +12,38 @@ export interface Point {
   y: number;
 }
 
+// What a single captureTerritory call claimed
+export interface CaptureResult {
+  cellsFilled: number; // EMPTY cells turned FILLED
+  lineCells: number; // cells of the completed line
+  regions: number; // enclosed regions that were filled
+  collected: number[]; // indices of the given items that lay in the filled regions
+}
+
+// How captureTerritory decides which of the regions next to a completed line are enclosed
+// - 'enemy': classic Qix, fill every region that does not contain an enemy
+// - 'largest': fill everything but the largest region; of equally large regions, the one whose first cell
+//   comes first row by row stays open
+export type CaptureRule = 'enemy' | 'largest';
+
+export const MAX_OWNERS = 2; // players who can own cells
+
+// One empty region being explored by captureTerritory
+interface Region {
+  id: number;
+  cells: number[]; // every cell found so far as flat indices, in the order they are explored
+  head: number; // next cell whose neighbours have not been explored yet
+  first: number; // lowest cell index found so far, for the 'largest' tie-break
+  hasEnemy: boolean;
+  parent: Region | null; // set once merged into another region
+}
+
+// The cells of a line being drawn, for isOnLine
+interface LineIndex {
+  length: number; // points of the path indexed so far
+  cells: Set<number>;
+}
+
 export class Grid {
   private static readonly CARDINAL_DIRECTIONS: ReadonlyArray<Point> = [
     { x: 0, y: -1 },
@@ -18,21 +52,48 @@ export class Grid {
     { x: 1, y: 0 },
   ];
 
-  private cells: CellType[][];
+  // Cells each region explores per turn while regions take turns growing
+  private static readonly CAPTURE_STEP = 64;
+
+  private cells: Uint8Array; // row-major, index = y * width + x
   private width: number;
   private height: number;
+  private filledCount: number = 0; // non-EMPTY cells, kept up to date by every write
+  private owners: Uint8Array; // 0 for nobody, otherwise the owning player's index + 1
+  private ownedCounts: number[] = new Array(MAX_OWNERS + 1).fill(0); // non-EMPTY cells per owner, nobody included
+
+  // Scratch labels for captureTerritory, stamped per capture so they never need clearing
+  private labels: Uint32Array;
+  private nextLabel: number = 1;
+
+  // Index of every line being drawn, one per player, so isOnLine does not scan the paths
+  private lineIndexes = new WeakMap<Point[], LineIndex>();
+
+  // Cells changed since the last takeDirtyCells call; tracking stops once so many changed that
+  // redrawing everything is cheaper, and nobody needs to drain it for a headless game
+  private dirtyCells: number[] = [];
+  private dirtyFlags: Uint8Array;
+  private allDirty: boolean = true;
 
   constructor(width: number, height: number) {
     this.width = width;
     this.height = height;
-    this.cells = [];
+    this.cells = new Uint8Array(width * height);
+    this.owners = new Uint8Array(width * height);
+    this.labels = new Uint32Array(width * height);
+    this.dirtyFlags = new Uint8Array(width * height);
     this.initialize();
   }
 
   private initialize(): void {
-    this.cells = Array.from({ length: this.height }, (_, y) =>
-      Array.from({ length: this.width }, (_, x) => (this.isBorderCell(x, y) ? CellType.BORDER : CellType.EMPTY)),
-    );
+    for (let x = 0; x < this.width; x++) {
+      this.setCell(x, 0, CellType.BORDER);
+      this.setCell(x, this.height - 1, CellType.BORDER);
+    }
+    for (let y = 1; y < this.height - 1; y++) {
+      this.setCell(0, y, CellType.BORDER);
+      this.setCell(this.width - 1, y, CellType.BORDER);
+    }
   }
 
   getWidth(): number {
@@ -47,13 +108,27 @@ export class Grid {
     if (!this.isInBounds(x, y)) {
       return CellType.BORDER; // Treat out of bounds as border
     }
-    return this.cells[y][x];
+    return this.cells[y * this.width + x];
   }
 
   setCell(x: number, y: number, type: CellType): void {
     if (this.isInBounds(x, y)) {
-      this.cells[y][x] = type;
+      this.write(y * this.width + x, type);
+    }
+  }
+
+  // Index of the player whose line or capture a cell belongs to, or null for level cells and empty space
+  getOwner(x: number, y: number): number | null {
+    if (!this.isInBounds(x, y)) {
+      return null;
     }
+    const owner = this.owners[y * this.width + x];
+    return owner === 0 ? null : owner - 1;
+  }
+
+  // Percentage of the board a player has drawn or captured
+  getOwnedCoverage(owner: number): number {
+    return ((this.ownedCounts[owner + 1] ?? 0) / this.cells.length) * 100;
   }
 
   isEmpty(x: number, y: number): boolean {
@@ -70,8 +145,10 @@ export class Grid {
     switch (this.getCell(x, y)) {
       case CellType.BORDER:
       case CellType.LINE:
+      case CellType.SLOW_LINE:
         return true;
       case CellType.FILLED:
+      case CellType.SLOW_FILLED:
         // Filled cells are traversable only when on the frontier.
         return this.hasEmptyNeighbor(x, y);
       default:
@@ -89,141 +166,381 @@ export class Grid {
     return false;
   }
 
-  setLine(x: number, y: number): void {
-    this.setCell(x, y, CellType.LINE);
+  setLine(x: number, y: number, type: CellType.LINE | CellType.SLOW_LINE = CellType.LINE, owner: number = 0): void {
+    if (this.isInBounds(x, y)) {
+      this.write(y * this.width + x, type, owner + 1);
+    }
   }
 
   // Clear all temporary lines
   clearLines(): void {
     this.replaceCells(CellType.LINE, CellType.EMPTY);
+    this.replaceCells(CellType.SLOW_LINE, CellType.EMPTY);
   }
 
   // Convert all lines to filled
   convertLinesToFilled(): void {
     this.replaceCells(CellType.LINE, CellType.FILLED);
+    this.replaceCells(CellType.SLOW_LINE, CellType.SLOW_FILLED);
+  }
+
+  // Flat indices (y * width + x) of the cells changed since the last call, or null when the whole
+  // board has to be treated as changed (a new grid, or more changes than are worth listing)
+  takeDirtyCells(): number[] | null {
+    const dirty = this.allDirty ? null : this.dirtyCells;
+    for (const index of this.dirtyCells) {
+      this.dirtyFlags[index] = 0;
+    }
+    this.dirtyCells = [];
+    this.allDirty = false;
+    return dirty;
   }
 
   // Calculate coverage percentage
   getCoverage(): number {
-    const totalCount = this.width * this.height;
-    let filledCount = 0;
+    return (this.filledCount / this.cells.length) * 100;
+  }
 
-    this.forEachCell((cell) => {
-      if (cell !== CellType.EMPTY) {
-        filledCount++;
-      }
-    });
+  // Run-length encode the cells row by row as [type, count] pairs
+  toRunLength(): Array<[CellType, number]> {
+    return runLength(this.cells);
+  }
 
-    return (filledCount / totalCount) * 100;
+  // Run-length encode the owners the same way, as [owner index + 1 or 0 for nobody, count] pairs
+  toOwnerRunLength(): Array<[number, number]> {
+    return runLength(this.owners);
   }
 
-  // Flood fill algorithm to capture territory
-  // Captures enclosed regions by filling all but the largest empty region
-  captureTerritory(linePath: Point[]): void {
-    if (linePath.length === 0) {
-      return;
+  // 32-bit FNV-1a of every cell and its owner, so two copies of a board can be compared by one number
+  hash(): number {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < this.cells.length; index++) {
+      hash = Math.imul(hash ^ this.cells[index], 0x01000193);
+      hash = Math.imul(hash ^ this.owners[index], 0x01000193);
     }
+    return hash >>> 0;
+  }
 
-    // Create a copy of the grid for simulation
-    const gridCopy = this.cells.map((row) => [...row]);
+  static fromRunLength(width: number, height: number, runs: Array<[CellType, number]>, ownerRuns?: Array<[number, number]>): Grid {
+    const cells = expandRuns(runs, width * height, 'Cell');
+    const owners = ownerRuns ? expandRuns(ownerRuns, width * height, 'Owner') : null;
 
-    // Mark lines as FILLED in the copy
-    for (const p of linePath) {
-      gridCopy[p.y][p.x] = CellType.FILLED;
-    }
-
-    // Find all empty regions using flood fill
-    const visited = new Set<string>();
-    const regions: Point[][] = [];
+    const grid = new Grid(width, height);
+    cells.forEach((cell, index) => grid.write(index, cell, owners?.[index] ?? 0));
+    return grid;
+  }
 
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        if (gridCopy[y][x] === CellType.EMPTY && !visited.has(this.makeKey(x, y))) {
-          const region = this.floodFill(gridCopy, x, y, visited);
-          if (region.length > 0) {
-            regions.push(region);
-          }
-        }
+  // Collect every EMPTY cell, row by row
+  getEmptyCells(): Point[] {
+    const cells: Point[] = [];
+    for (let index = 0; index < this.cells.length; index++) {
+      if (this.cells[index] === CellType.EMPTY) {
+        cells.push({ x: index % this.width, y: Math.floor(index / this.width) });
       }
     }
+    return cells;
+  }
+
+  // Fill the empty regions next to the new line that the capture rule counts as enclosed.
+  // Only regions touching the line can have been cut off by it, so the rest of the board is never visited.
+  captureTerritory(
+    linePath: Point[],
+    fillType: CellType.FILLED | CellType.SLOW_FILLED = CellType.FILLED,
+    rule: CaptureRule = 'largest',
+    enemies: ReadonlyArray<Point> = [],
+    owner: number = 0,
+    items: ReadonlyArray<Point> = [],
+  ): CaptureResult {
+    if (linePath.length === 0) {
+      return { cellsFilled: 0, lineCells: 0, regions: 0, collected: [] };
+    }
 
+    const regions = this.exploreRegionsAround(linePath, rule, enemies);
     if (regions.length === 0) {
       this.convertLinesToFilled();
-      return;
+      return { cellsFilled: 0, lineCells: linePath.length, regions: 0, collected: [] };
     }
 
-    // Sort regions by size (smallest first)
-    regions.sort((a, b) => a.length - b.length);
+    let enclosed: Region[];
+    if (rule === 'enemy') {
+      enclosed = regions.filter((region) => !region.hasEnemy);
+    } else {
+      // The largest region is assumed to be the "outside" (unenclosed) area
+      const outside = regions.reduce((largest, region) =>
+        region.cells.length > largest.cells.length || (region.cells.length === largest.cells.length && region.first < largest.first)
+          ? region
+          : largest,
+      );
+      enclosed = regions.filter((region) => region !== outside);
+    }
 
-    // Fill all regions except the largest one
-    // The largest region is assumed to be the "outside" (unenclosed) area
-    // All smaller regions are enclosed and should be captured
-    for (let i = 0; i < regions.length - 1; i++) {
-      for (const p of regions[i]) {
-        this.setCell(p.x, p.y, CellType.FILLED);
+    const waiting = this.findItemsOnEmptyCells(items);
+    let cellsFilled = 0;
+    for (const region of enclosed) {
+      for (const index of region.cells) {
+        this.write(index, fillType, owner + 1);
       }
+      cellsFilled += region.cells.length;
     }
 
     // Keep the line as LINE (don't convert to FILLED)
     // Lines remain as permanent traversable paths
-    // this.convertLinesToFilled();
+    return { cellsFilled, lineCells: linePath.length, regions: enclosed.length, collected: this.findFilledItems(items, waiting) };
+  }
+
+  // Items are collected by checking their own cells before and after a fill, so finding them costs
+  // nothing per filled cell
+  private findItemsOnEmptyCells(items: ReadonlyArray<Point>): number[] {
+    return items.flatMap((item, index) => (this.isInBounds(item.x, item.y) && this.isEmpty(item.x, item.y) ? [index] : []));
   }
 
-  private floodFill(grid: CellType[][], startX: number, startY: number, visited: Set<string>): Point[] {
-    const region: Point[] = [];
-    const stack: Point[] = [{ x: startX, y: startY }];
+  private findFilledItems(items: ReadonlyArray<Point>, waiting: number[]): number[] {
+    return waiting.filter((index) => !this.isEmpty(items[index].x, items[index].y));
+  }
 
-    while (stack.length > 0) {
-      const { x, y } = stack.pop()!;
-      const key = this.makeKey(x, y);
+  // Every region of connected EMPTY cells as flat indices, in the order their first cells come row by row
+  getOpenRegions(): number[][] {
+    const regions: number[][] = [];
+    const seen = new Uint8Array(this.cells.length);
+    for (let start = 0; start < this.cells.length; start++) {
+      if (this.cells[start] !== CellType.EMPTY || seen[start]) continue;
+      const region = [start];
+      seen[start] = 1;
+      for (let head = 0; head < region.length; head++) {
+        this.forEachEmptyNeighbor(region[head], (neighbor) => {
+          if (!seen[neighbor]) {
+            seen[neighbor] = 1;
+            region.push(neighbor);
+          }
+        });
+      }
+      regions.push(region);
+    }
+    return regions;
+  }
 
-      if (visited.has(key)) continue;
-      if (!this.isInBounds(x, y)) continue;
-      if (grid[y][x] !== CellType.EMPTY) continue;
+  // The open regions a fill may take: like a capture under the 'enemy' rule, none that holds an enemy,
+  // and never the last one left on a board without enemies
+  getFillableRegions(enemies: ReadonlyArray<Point> = []): number[][] {
+    const regions = this.getOpenRegions();
+    const enemyCells = new Set(enemies.filter((p) => this.isInBounds(p.x, p.y)).map((p) => p.y * this.width + p.x));
+    const fillable = regions.filter((region) => !region.some((index) => enemyCells.has(index)));
+    return fillable.length < regions.length || regions.length > 1 ? fillable : [];
+  }
+
+  // Fill the smallest fillable region for a player, collecting the items in it like a capture would
+  fillSmallestRegion(
+    fillType: CellType.FILLED | CellType.SLOW_FILLED = CellType.FILLED,
+    owner: number = 0,
+    items: ReadonlyArray<Point> = [],
+    enemies: ReadonlyArray<Point> = [],
+  ): CaptureResult {
+    const regions = this.getFillableRegions(enemies);
+    if (regions.length === 0) {
+      return { cellsFilled: 0, lineCells: 0, regions: 0, collected: [] };
+    }
+    const smallest = regions.reduce((best, region) => (region.length < best.length ? region : best));
+    const waiting = this.findItemsOnEmptyCells(items);
+    for (const index of smallest) {
+      this.write(index, fillType, owner + 1);
+    }
+    return { cellsFilled: smallest.length, lineCells: 0, regions: 1, collected: this.findFilledItems(items, waiting) };
+  }
 
-      visited.add(key);
-      region.push({ x, y });
+  // Flood the empty regions bordering the line, taking turns a few cells at a time and merging regions that meet.
+  // Exploration stops as soon as the rule can decide: under 'enemy' once every region still growing holds an
+  // enemy, under 'largest' once a single region is still growing and is already bigger than every finished one.
+  // The regions left growing are kept open, so their remaining cells never need to be visited.
+  private exploreRegionsAround(linePath: Point[], rule: CaptureRule, enemies: ReadonlyArray<Point>): Region[] {
+    if (this.nextLabel + this.cells.length + 1 >= 0xffffffff) {
+      this.labels.fill(0);
+      this.nextLabel = 1;
+    }
+    const lineLabel = this.nextLabel;
+    const firstRegionLabel = lineLabel + 1;
+    const line = linePath.filter((p) => this.isInBounds(p.x, p.y)).map((p) => p.y * this.width + p.x);
+    for (const index of line) {
+      this.labels[index] = lineLabel;
+    }
+
+    const enemyCells = new Set(enemies.filter((p) => this.isInBounds(p.x, p.y)).map((p) => p.y * this.width + p.x));
+    const claim = (index: number, region: Region): void => {
+      this.labels[index] = firstRegionLabel + region.id;
+      region.cells.push(index);
+      region.first = Math.min(region.first, index);
+      region.hasEnemy ||= enemyCells.has(index);
+    };
+
+    // One region per empty cell touching the line; regions that turn out to be connected merge as they meet
+    const seeds: Region[] = [];
+    for (const index of line) {
+      this.forEachEmptyNeighbor(index, (neighbor) => {
+        if (this.labels[neighbor] >= lineLabel) return;
+        const region: Region = { id: seeds.length, cells: [], head: 0, first: neighbor, hasEnemy: false, parent: null };
+        claim(neighbor, region);
+        seeds.push(region);
+      });
+    }
+    this.nextLabel = firstRegionLabel + seeds.length;
+
+    const active = [...seeds];
+
+    // Claim an unlabelled neighbour for the region taking its turn, or merge with the region that owns it
+    let region = seeds[0];
+    const explore = (neighbor: number): void => {
+      const label = this.labels[neighbor];
+      if (label === lineLabel) return;
+      if (label < firstRegionLabel) {
+        claim(neighbor, region);
+        return;
+      }
+      const other = this.findRoot(seeds[label - firstRegionLabel]);
+      if (other !== region) {
+        region = this.mergeRegions(region, other);
+      }
+    };
+
+    const finished: Region[] = [];
+    let largestFinished = 0;
+    const decided = (): boolean =>
+      rule === 'enemy'
+        ? active.every((candidate) => candidate.hasEnemy)
+        : active.length === 0 || (active.length === 1 && active[0].cells.length > largestFinished);
+
+    while (!decided()) {
+      for (let i = 0; i < active.length; i++) {
+        region = active[i];
+        // Regions holding an enemy stay open under 'enemy' whatever else they contain
+        if (region.parent || (rule === 'enemy' && region.hasEnemy)) continue;
+
+        if (region.head === region.cells.length) {
+          finished.push(region);
+          largestFinished = Math.max(largestFinished, region.cells.length);
+          region.parent = region; // no longer active
+          continue;
+        }
+
+        for (let step = 0; step < Grid.CAPTURE_STEP && region.head < region.cells.length; step++) {
+          this.forEachEmptyNeighbor(region.cells[region.head++], explore);
+        }
+      }
 
-      // Add neighbors
-      stack.push({ x: x + 1, y });
-      stack.push({ x: x - 1, y });
-      stack.push({ x, y: y + 1 });
-      stack.push({ x, y: y - 1 });
+      for (let i = active.length - 1; i >= 0; i--) {
+        if (active[i].parent) active.splice(i, 1);
+      }
     }
 
+    return [...finished, ...active];
+  }
+
+  // Union by size: the smaller region's cells move into the larger one and are explored again there,
+  // which only finds cells that are already labelled
+  private mergeRegions(a: Region, b: Region): Region {
+    const [into, from] = a.cells.length >= b.cells.length ? [a, b] : [b, a];
+    for (const index of from.cells) into.cells.push(index);
+    into.first = Math.min(into.first, from.first);
+    into.hasEnemy ||= from.hasEnemy;
+    from.parent = into;
+    from.cells = [];
+    return into;
+  }
+
+  private findRoot(region: Region): Region {
+    while (region.parent && region.parent !== region) {
+      region = region.parent;
+    }
     return region;
   }
 
-  // Check if a point is on the current line being drawn
+  private forEachEmptyNeighbor(index: number, visit: (neighbor: number) => void): void {
+    const x = index % this.width;
+    if (index >= this.width && this.cells[index - this.width] === CellType.EMPTY) visit(index - this.width);
+    if (index < this.cells.length - this.width && this.cells[index + this.width] === CellType.EMPTY) visit(index + this.width);
+    if (x > 0 && this.cells[index - 1] === CellType.EMPTY) visit(index - 1);
+    if (x < this.width - 1 && this.cells[index + 1] === CellType.EMPTY) visit(index + 1);
+  }
+
+  // Check if a point is on a line being drawn
+  // Lines only grow while drawing, so new points are added to the line's index as they appear
   isOnLine(x: number, y: number, linePath: Point[]): boolean {
-    return linePath.some((p) => p.x === x && p.y === y);
+    let index = this.lineIndexes.get(linePath);
+    if (!index || linePath.length < index.length) {
+      index = { length: 0, cells: new Set() };
+      this.lineIndexes.set(linePath, index);
+    }
+    for (; index.length < linePath.length; index.length++) {
+      const p = linePath[index.length];
+      index.cells.add(p.y * this.width + p.x);
+    }
+    return this.isInBounds(x, y) && index.cells.has(y * this.width + x);
   }
 
   private isInBounds(x: number, y: number): boolean {
     return x >= 0 && x < this.width && y >= 0 && y < this.height;
   }
 
-  private isBorderCell(x: number, y: number): boolean {
-    return x === 0 || x === this.width - 1 || y === 0 || y === this.height - 1;
+  // Every cell write goes through here so the filled counters stay exact. Cells keep their owner
+  // unless given a new one, and lose it when they are emptied.
+  private write(index: number, type: CellType, owner: number = this.owners[index]): void {
+    const previous = this.cells[index];
+    const previousOwner = this.owners[index];
+    if (type === CellType.EMPTY) {
+      owner = 0;
+    }
+    if (previous !== CellType.EMPTY) {
+      this.filledCount--;
+      this.ownedCounts[previousOwner]--;
+    }
+    if (type !== CellType.EMPTY) {
+      this.filledCount++;
+      this.ownedCounts[owner]++;
+    }
+    if ((previous !== type || previousOwner !== owner) && !this.allDirty && !this.dirtyFlags[index]) {
+      this.markDirty(index);
+    }
+    this.cells[index] = type;
+    this.owners[index] = owner;
   }
 
-  private forEachCell(visitor: (cell: CellType, x: number, y: number) => void): void {
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        visitor(this.cells[y][x], x, y);
+  private markDirty(index: number): void {
+    if (this.dirtyCells.length >= this.cells.length / 4) {
+      for (const dirty of this.dirtyCells) {
+        this.dirtyFlags[dirty] = 0;
       }
+      this.dirtyCells = [];
+      this.allDirty = true;
+      return;
     }
+    this.dirtyFlags[index] = 1;
+    this.dirtyCells.push(index);
   }
 
   private replaceCells(from: CellType, to: CellType): void {
-    this.forEachCell((cell, x, y) => {
-      if (cell === from) {
-        this.cells[y][x] = to;
+    for (let index = 0; index < this.cells.length; index++) {
+      if (this.cells[index] === from) {
+        this.write(index, to);
       }
-    });
+    }
   }
+}
+
+function runLength<T extends number>(values: ArrayLike<number>): Array<[T, number]> {
+  const runs: Array<[T, number]> = [];
+  for (let i = 0; i < values.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last[0] === values[i]) {
+      last[1]++;
+    } else {
+      runs.push([values[i] as T, 1]);
+    }
+  }
+  return runs;
+}
 
-  private makeKey(x: number, y: number): string {
-    return `${x},${y}`;
+function expandRuns<T>(runs: Array<[T, number]>, length: number, name: string): T[] {
+  const total = runs.reduce((sum, [, count]) => sum + count, 0);
+  if (total !== length) {
+    throw new Error(`${name} runs cover ${total} cells, expected ${length}`);
   }
+  return runs.flatMap(([value, count]) => new Array<T>(count).fill(value));
 }
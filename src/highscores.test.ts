@@ -0,0 +1,58 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { HighScoreTable, HighScoreEntry, HIGH_SCORES_KEY, InitialsEntry, formatHighScore } from './highscores';
+import { MemoryStorage } from './storage';
+
+describe('HighScoreTable', () => {
+  const entry = (initials: string, score: number, day = 1): HighScoreEntry => ({
+    initials,
+    score,
+    level: 2,
+    coverage: 120,
+    date: `2026-01-${String(day).padStart(2, '0')}T12:00:00.000Z`,
+  });
+
+  it('should keep the best entries in order and save them', () => {
+    const storage = new MemoryStorage();
+    const table = new HighScoreTable(storage, 3);
+
+    expect(table.add(entry('AAA', 500))).toBe(0);
+    expect(table.add(entry('BBB', 900))).toBe(0);
+    expect(table.add(entry('CCC', 500, 2)), 'Equal score ranks below the older entry').toBe(2);
+    expect(table.qualifies(400), 'Full table needs a better score than the last').toBe(false);
+    expect(table.add(entry('DDD', 100))).toBe(-1);
+
+    const reloaded = new HighScoreTable(storage, 3);
+    expect(reloaded.getEntries().map((e) => e.initials)).toEqual(['BBB', 'AAA', 'CCC']);
+  });
+
+  it('should reset a corrupted table instead of failing', () => {
+    const storage = new MemoryStorage();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (const json of ['not json', '{"score":1}', JSON.stringify([{ ...entry('ABC', 10), score: 'lots' }])]) {
+      storage.setItem(HIGH_SCORES_KEY, json);
+      expect(new HighScoreTable(storage).getEntries(), json).toEqual([]);
+      expect(storage.getItem(HIGH_SCORES_KEY), 'Corrupted data should be removed').toBeNull();
+    }
+    expect(warn).toHaveBeenCalledWith('Resetting corrupted high scores:', new Error('High score 1 score must be a non-negative number'));
+    warn.mockRestore();
+  });
+
+  it('should pick initials letter by letter', () => {
+    const initials = new InitialsEntry();
+    initials.cycle(-1);
+    expect(initials.getInitials(), 'Letters wrap around').toBe('Z');
+
+    expect(initials.confirm()).toBe(false);
+    initials.cycle(2);
+    initials.back();
+    initials.cycle(1);
+    expect(initials.confirm()).toBe(false);
+    expect(initials.getInitials()).toBe('AA');
+    expect(initials.getCursor()).toBe(1);
+    expect(initials.confirm()).toBe(false);
+    expect(initials.confirm(), 'Third letter is the last').toBe(true);
+    expect(formatHighScore({ ...entry('AAA', 1500), initials: initials.getInitials() }, 1)).toBe(' 1. AAA    1500  L2  120%  2026-01-01');
+  });
+});
@@ -0,0 +1,151 @@
+import { KeyValueStorage } from './storage';
+
+export const HIGH_SCORES_KEY = 'qix.highScores';
+export const HIGH_SCORE_COUNT = 10;
+export const INITIALS_LENGTH = 3;
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export interface HighScoreEntry {
+  initials: string;
+  score: number;
+  level: number; // level the game ended on
+  coverage: number; // coverage summed over every level played, in percent
+  date: string; // ISO 8601
+}
+
+// Higher score first, then further level; the older entry stays above an equal newer one
+function compareEntries(a: HighScoreEntry, b: HighScoreEntry): number {
+  return b.score - a.score || b.level - a.level || a.date.localeCompare(b.date);
+}
+
+// Saved table, or an empty one when nothing usable is stored. A corrupted table is removed,
+// so the next save starts clean instead of failing again.
+export function loadHighScores(storage: KeyValueStorage | null): HighScoreEntry[] {
+  const json = storage?.getItem(HIGH_SCORES_KEY);
+  if (!json) {
+    return [];
+  }
+  try {
+    return parseHighScores(JSON.parse(json));
+  } catch (error) {
+    console.warn('Resetting corrupted high scores:', error);
+    storage!.removeItem(HIGH_SCORES_KEY);
+    return [];
+  }
+}
+
+// Check a stored table, throwing an error that names the first bad entry
+export function parseHighScores(data: unknown): HighScoreEntry[] {
+  if (!Array.isArray(data)) {
+    throw new Error('High scores must be an array');
+  }
+
+  return data
+    .map((item: unknown, index): HighScoreEntry => {
+      const entry = item as Partial<Record<keyof HighScoreEntry, unknown>> | null;
+      const path = `High score ${index + 1}`;
+      if (typeof entry !== 'object' || entry === null) {
+        throw new Error(`${path} must be an object`);
+      }
+      if (typeof entry.initials !== 'string' || !/^[A-Z]{1,3}$/.test(entry.initials)) {
+        throw new Error(`${path} initials must be 1 to ${INITIALS_LENGTH} letters`);
+      }
+      for (const field of ['score', 'level', 'coverage'] as const) {
+        const value = entry[field];
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          throw new Error(`${path} ${field} must be a non-negative number`);
+        }
+      }
+      if (typeof entry.date !== 'string' || Number.isNaN(Date.parse(entry.date))) {
+        throw new Error(`${path} date must be an ISO date`);
+      }
+      return entry as HighScoreEntry;
+    })
+    .sort(compareEntries);
+}
+
+// One line of the table, e.g. " 1. ABC   12500  L3  162%  2026-10-18"
+export function formatHighScore(entry: HighScoreEntry, rank: number): string {
+  const place = `${rank}.`.padStart(3);
+  const score = String(entry.score).padStart(7);
+  return `${place} ${entry.initials.padEnd(INITIALS_LENGTH)} ${score}  L${entry.level}  ${Math.round(entry.coverage)}%  ${entry.date.slice(0, 10)}`;
+}
+
+// Top entries, best first, kept in storage as JSON
+export class HighScoreTable {
+  private storage: KeyValueStorage | null;
+  private size: number;
+  private entries: HighScoreEntry[];
+
+  constructor(storage: KeyValueStorage | null, size: number = HIGH_SCORE_COUNT) {
+    this.storage = storage;
+    this.size = size;
+    this.entries = loadHighScores(storage).slice(0, size);
+  }
+
+  getEntries(): HighScoreEntry[] {
+    return this.entries.map((entry) => ({ ...entry }));
+  }
+
+  // Whether a score would earn a place; a game that scored nothing never does
+  qualifies(score: number): boolean {
+    return score > 0 && (this.entries.length < this.size || score > this.entries[this.entries.length - 1].score);
+  }
+
+  // Insert an entry and save; returns its place counting from 0, or -1 if it did not make the table
+  add(entry: HighScoreEntry): number {
+    const entries = [...this.entries, { ...entry }].sort(compareEntries).slice(0, this.size);
+    const rank = entries.findIndex((e) => e.date === entry.date && e.initials === entry.initials && e.score === entry.score);
+    if (rank === -1) {
+      return -1;
+    }
+
+    this.entries = entries;
+    try {
+      this.storage?.setItem(HIGH_SCORES_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.warn('Saving high scores failed:', error);
+    }
+    return rank;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.storage?.removeItem(HIGH_SCORES_KEY);
+  }
+}
+
+// Arcade-style initials: up and down cycle the letter under the cursor, confirm moves on
+export class InitialsEntry {
+  private letters: number[] = [0];
+
+  getInitials(): string {
+    return this.letters.map((letter) => LETTERS[letter]).join('');
+  }
+
+  getCursor(): number {
+    return this.letters.length - 1;
+  }
+
+  cycle(delta: number): void {
+    const cursor = this.getCursor();
+    this.letters[cursor] = (this.letters[cursor] + delta + LETTERS.length) % LETTERS.length;
+  }
+
+  // Fix the current letter; returns true once the last one is fixed
+  confirm(): boolean {
+    if (this.letters.length === INITIALS_LENGTH) {
+      return true;
+    }
+    this.letters.push(this.letters[this.getCursor()]);
+    return false;
+  }
+
+  // Step back to correct the previous letter
+  back(): void {
+    if (this.letters.length > 1) {
+      this.letters.pop();
+    }
+  }
+}
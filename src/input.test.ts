@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InputHandler, InputState, NO_INPUT, BINDINGS_KEY, DEFAULT_BINDINGS, loadBindings } from './input';
+
+describe('InputHandler', () => {
+  let target: EventTarget;
+  let input: InputHandler;
+
+  const key = (type: 'keydown' | 'keyup', name: string): void => {
+    target.dispatchEvent(new KeyboardEvent(type, { key: name }));
+  };
+
+  const touch = (type: string, ...points: Array<[number, number]>): void => {
+    const event = new Event(type, { cancelable: true });
+    const touches = points.map(([clientX, clientY], identifier) => ({ identifier, clientX, clientY }));
+    target.dispatchEvent(Object.assign(event, { touches }));
+  };
+
+  const only = (overrides: Partial<InputState>): InputState => ({ ...NO_INPUT, ...overrides });
+
+  beforeEach(() => {
+    localStorage.clear();
+    target = document.createElement('div');
+    input = new InputHandler({ keyboardTarget: target, touchTarget: target });
+  });
+
+  afterEach(() => {
+    input.dispose();
+  });
+
+  it('should map arrow keys and WASD to move actions', () => {
+    key('keydown', 'ArrowUp');
+    expect(input.getState()).toEqual(only({ up: true }));
+
+    key('keyup', 'ArrowUp');
+    key('keydown', 'a');
+    key('keydown', ' ');
+    expect(input.getState()).toEqual(only({ left: true, fastDraw: true }));
+  });
+
+  it('should save remapped bindings and load them in a new handler', () => {
+    input.setBinding('fastDraw', ['j']);
+    input.dispose();
+
+    input = new InputHandler({ keyboardTarget: target });
+    key('keydown', ' ');
+    expect(input.getState().fastDraw, 'Old key should no longer draw').toBe(false);
+    key('keydown', 'j');
+    expect(input.getState().fastDraw).toBe(true);
+  });
+
+  it('should fall back to the default bindings when the saved ones are corrupted', () => {
+    localStorage.setItem(BINDINGS_KEY, '{"keyboard":{"up":"ArrowUp"}}');
+
+    expect(loadBindings(localStorage)).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it('should stop listening after dispose', () => {
+    key('keydown', 'ArrowRight');
+    input.dispose();
+    key('keydown', 'ArrowDown');
+
+    expect(input.getState(), 'Disposed handler should report no input').toEqual(NO_INPUT);
+  });
+
+  it('should read the gamepad d-pad, stick and buttons', () => {
+    const button = (pressed: boolean) => ({ pressed, touched: pressed, value: pressed ? 1 : 0 });
+    const pad = { connected: true, axes: [0.9, 0], buttons: Array.from({ length: 16 }, (_, i) => button(i === 0 || i === 12)) };
+    const original = Object.getOwnPropertyDescriptor(navigator, 'getGamepads');
+    Object.defineProperty(navigator, 'getGamepads', { value: () => [null, pad], configurable: true });
+
+    try {
+      expect(input.getState()).toEqual(only({ up: true, right: true, fastDraw: true }));
+    } finally {
+      if (original) {
+        Object.defineProperty(navigator, 'getGamepads', original);
+      } else {
+        delete (navigator as { getGamepads?: unknown }).getGamepads;
+      }
+    }
+  });
+
+  it('should steer with a swipe while the finger is held and draw with a second finger', () => {
+    touch('touchstart', [100, 100]);
+    touch('touchmove', [105, 102]);
+    expect(input.getState(), 'Small movements are not swipes').toEqual(NO_INPUT);
+
+    touch('touchmove', [100, 40]);
+    expect(input.getState()).toEqual(only({ up: true }));
+
+    touch('touchstart', [100, 40], [300, 300]);
+    expect(input.getState()).toEqual(only({ up: true, fastDraw: true }));
+
+    touch('touchend');
+    expect(input.getState(), 'Lifting the fingers stops the player').toEqual(NO_INPUT);
+  });
+
+  it('should release a key held by code when Shift changes what it reports', () => {
+    const event = (type: 'keydown' | 'keyup', name: string, code: string): void => {
+      target.dispatchEvent(new KeyboardEvent(type, { key: name, code }));
+    };
+    event('keydown', 'Shift', 'ShiftLeft');
+    event('keydown', 'W', 'KeyW');
+    expect(input.getState()).toEqual(only({ up: true, slowDraw: true }));
+
+    event('keyup', 'Shift', 'ShiftLeft');
+    event('keyup', 'w', 'KeyW');
+    expect(input.getState(), 'No key should be left held').toEqual(NO_INPUT);
+  });
+
+  it('should not confirm with Space, which is held to draw', () => {
+    key('keydown', ' ');
+    expect(input.getState()).toEqual(only({ fastDraw: true }));
+    expect(input.takeCommands()).toEqual([]);
+  });
+
+  it('should queue pause and confirm commands once per press', () => {
+    key('keydown', 'Escape');
+    target.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', repeat: true }));
+    key('keydown', 'Enter');
+    touch('touchstart', [100, 100]);
+    touch('touchend');
+    touch('touchstart', [100, 100]);
+    touch('touchmove', [100, 40]);
+    touch('touchend');
+
+    expect(input.takeCommands(), 'A swipe is not a tap').toEqual(['pause', 'confirm', 'confirm']);
+    expect(input.takeCommands()).toEqual([]);
+  });
+
+  it('should let tests inject actions directly', () => {
+    input.simulateAction('slowDraw', true);
+    input.simulateKeyPress('ArrowDown', true);
+
+    expect(input.getState()).toEqual(only({ down: true, slowDraw: true }));
+  });
+});
@@ -1,108 +1,393 @@
+import { getLocalStorage, KeyValueStorage } from './storage';
+
 export enum Direction {
   UP = 0,
   RIGHT = 1,
   DOWN = 2,
-  LEFT = 3
+  LEFT = 3,
+}
+
+// Snapshot of the controls for one simulation tick
+export interface InputState {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  fastDraw: boolean;
+  slowDraw: boolean;
 }
 
+export const NO_INPUT: Readonly<InputState> = {
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  fastDraw: false,
+  slowDraw: false,
+};
+
+// Direction for continuous movement, using the same priority as the keyboard handler
+export function getInputDirection(input: InputState): Direction | null {
+  if (input.up) return Direction.UP;
+  if (input.right) return Direction.RIGHT;
+  if (input.down) return Direction.DOWN;
+  if (input.left) return Direction.LEFT;
+  return null;
+}
+
+// Something the player can do; every action is one field of InputState
+export type Action = keyof InputState;
+
+export const ACTIONS: ReadonlyArray<Action> = ['up', 'down', 'left', 'right', 'fastDraw', 'slowDraw'];
+
+// Which keys (KeyboardEvent.key) and standard-mapping gamepad buttons trigger each action
+export interface InputBindings {
+  keyboard: Record<Action, string[]>;
+  gamepad: Record<Action, number[]>;
+}
+
+export const DEFAULT_BINDINGS: Readonly<InputBindings> = {
+  keyboard: {
+    up: ['ArrowUp', 'w', 'W'],
+    down: ['ArrowDown', 's', 'S'],
+    left: ['ArrowLeft', 'a', 'A'],
+    right: ['ArrowRight', 'd', 'D'],
+    fastDraw: [' '],
+    slowDraw: ['Shift'],
+  },
+  gamepad: {
+    up: [12], // d-pad
+    down: [13],
+    left: [14],
+    right: [15],
+    fastDraw: [0], // A / cross
+    slowDraw: [1, 2], // B / circle, X / square
+  },
+};
+
+// Two players on one keyboard: player 1 on the arrows, player 2 on WASD, each with their own draw keys
+// and the gamepad of the same number
+export const TWO_PLAYER_BINDINGS: ReadonlyArray<Readonly<InputBindings>> = [
+  {
+    keyboard: {
+      up: ['ArrowUp'],
+      down: ['ArrowDown'],
+      left: ['ArrowLeft'],
+      right: ['ArrowRight'],
+      fastDraw: ['/'],
+      slowDraw: ['.'],
+    },
+    gamepad: DEFAULT_BINDINGS.gamepad,
+  },
+  {
+    keyboard: {
+      up: ['w', 'W'],
+      down: ['s', 'S'],
+      left: ['a', 'A'],
+      right: ['d', 'D'],
+      fastDraw: ['q', 'Q'],
+      slowDraw: ['e', 'E'],
+    },
+    gamepad: DEFAULT_BINDINGS.gamepad,
+  },
+];
+
+export const BINDINGS_KEY = 'qix.bindings';
+
+// Menu commands are one-off presses, not held actions, and are never recorded.
+// Space and the gamepad's face buttons are left out because they are held to draw, and every press
+// would also confirm; instead the gamepad's Start button pauses during play and confirms everywhere else.
+export type Command = 'pause' | 'confirm' | 'start';
+
+const COMMAND_KEYS: Readonly<Record<string, Command>> = {
+  p: 'pause',
+  P: 'pause',
+  Escape: 'pause',
+  Enter: 'confirm',
+};
+
+const COMMAND_BUTTONS: Readonly<Record<number, Command>> = {
+  9: 'start', // Start / options
+};
+
+const STICK_DEADZONE = 0.5;
+const SWIPE_DISTANCE = 30; // px a finger has to travel before it counts as a swipe
+
+// Saved bindings, or the defaults when nothing usable is stored
+export function loadBindings(storage: KeyValueStorage | null): InputBindings {
+  const json = storage?.getItem(BINDINGS_KEY);
+  if (!json) {
+    return structuredClone(DEFAULT_BINDINGS);
+  }
+  try {
+    return parseBindings(JSON.parse(json));
+  } catch (error) {
+    console.warn('Ignoring saved key bindings:', error);
+    return structuredClone(DEFAULT_BINDINGS);
+  }
+}
+
+export function saveBindings(storage: KeyValueStorage, bindings: InputBindings): void {
+  storage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+}
+
+// Check a bindings table, throwing an error that names the first bad entry
+export function parseBindings(data: unknown): InputBindings {
+  const table = data as Partial<Record<keyof InputBindings, Record<string, unknown>>> | null;
+  if (typeof table !== 'object' || table === null) {
+    throw new Error('Bindings must be an object');
+  }
+
+  const bindings = structuredClone(DEFAULT_BINDINGS) as InputBindings;
+  for (const action of ACTIONS) {
+    const keys = table.keyboard?.[action];
+    if (!Array.isArray(keys) || !keys.every((key) => typeof key === 'string')) {
+      throw new Error(`Bindings keyboard.${action} must be an array of key names`);
+    }
+    const buttons = table.gamepad?.[action];
+    if (!Array.isArray(buttons) || !buttons.every((button) => Number.isInteger(button) && button >= 0)) {
+      throw new Error(`Bindings gamepad.${action} must be an array of button numbers`);
+    }
+    bindings.keyboard[action] = keys;
+    bindings.gamepad[action] = buttons;
+  }
+  return bindings;
+}
+
+export interface InputHandlerOptions {
+  bindings?: InputBindings; // defaults to the bindings saved in storage
+  storage?: KeyValueStorage | null; // where bindings are loaded from and saved to
+  keyboardTarget?: EventTarget; // defaults to window
+  touchTarget?: EventTarget | null; // element for swipe controls, usually the canvas
+  gamepad?: number; // only read the gamepad with this index; defaults to every connected one
+  commands?: boolean; // queue menu commands; off for a second player, so one key press is not taken twice
+}
+
+// Turns keyboard, gamepad and touch input into actions.
+// Touch: swipe and keep the finger down to steer; hold a second finger down to draw.
 export class InputHandler {
-  private keyState: Map<string, boolean> = new Map();
-  private lastDirection: Direction = Direction.UP;
-  private directionQueue: Direction[] = [];
+  private bindings: InputBindings;
+  private storage: KeyValueStorage | null;
+  private keyboardTarget: EventTarget;
+  private touchTarget: EventTarget | null;
+  private gamepad: number | null;
+  private commandsEnabled: boolean;
+  private pressedKeys: Map<string, string> = new Map(); // physical key (KeyboardEvent.code) to the key it last gave
+  private injectedActions: Set<Action> = new Set();
+  private swipeStart: { id: number; x: number; y: number } | null = null;
+  private swipeDirection: Action | null = null;
+  private touchDraw: boolean = false;
+  private tapping: boolean = false; // a finger is down and has not swiped yet
+  private commands: Command[] = [];
+  private pressedButtons: Set<number> = new Set();
+
+  constructor(options: InputHandlerOptions = {}) {
+    this.storage = options.storage === undefined ? getLocalStorage() : options.storage;
+    this.bindings = options.bindings ?? loadBindings(this.storage);
+    this.keyboardTarget = options.keyboardTarget ?? window;
+    this.touchTarget = options.touchTarget ?? null;
+    this.gamepad = options.gamepad ?? null;
+    this.commandsEnabled = options.commands ?? true;
 
-  constructor() {
-    window.addEventListener('keydown', (e) => this.onKeyDown(e));
-    window.addEventListener('keyup', (e) => this.onKeyUp(e));
+    this.keyboardTarget.addEventListener('keydown', this.onKeyDown);
+    this.keyboardTarget.addEventListener('keyup', this.onKeyUp);
+    this.keyboardTarget.addEventListener('blur', this.onBlur);
+    this.touchTarget?.addEventListener('touchstart', this.onTouchStart, { passive: false });
+    this.touchTarget?.addEventListener('touchmove', this.onTouchMove, { passive: false });
+    this.touchTarget?.addEventListener('touchend', this.onTouchEnd);
+    this.touchTarget?.addEventListener('touchcancel', this.onTouchEnd);
   }
 
-  private onKeyDown(e: KeyboardEvent): void {
-    // Prevent default for arrow keys to stop page scrolling
-    if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
-      e.preventDefault();
+  // Remove every listener; the handler reports no input afterwards
+  dispose(): void {
+    this.keyboardTarget.removeEventListener('keydown', this.onKeyDown);
+    this.keyboardTarget.removeEventListener('keyup', this.onKeyUp);
+    this.keyboardTarget.removeEventListener('blur', this.onBlur);
+    this.touchTarget?.removeEventListener('touchstart', this.onTouchStart);
+    this.touchTarget?.removeEventListener('touchmove', this.onTouchMove);
+    this.touchTarget?.removeEventListener('touchend', this.onTouchEnd);
+    this.touchTarget?.removeEventListener('touchcancel', this.onTouchEnd);
+    this.onBlur();
+    this.commands = [];
+  }
+
+  getBindings(): InputBindings {
+    return structuredClone(this.bindings);
+  }
+
+  // Replace the keys and buttons for one action and save the table
+  setBinding(action: Action, keys: string[], buttons: number[] = this.bindings.gamepad[action]): void {
+    this.bindings.keyboard[action] = [...keys];
+    this.bindings.gamepad[action] = [...buttons];
+    if (this.storage) {
+      saveBindings(this.storage, this.bindings);
     }
+  }
 
-    this.keyState.set(e.key, true);
-
-    // Add direction to queue for precise control
-    switch (e.key) {
-      case 'ArrowUp':
-        this.directionQueue.push(Direction.UP);
-        break;
-      case 'ArrowRight':
-        this.directionQueue.push(Direction.RIGHT);
-        break;
-      case 'ArrowDown':
-        this.directionQueue.push(Direction.DOWN);
-        break;
-      case 'ArrowLeft':
-        this.directionQueue.push(Direction.LEFT);
-        break;
+  // Keys are held by code, since the key a code gives can change in between: W pressed with Shift
+  // held is 'W' going down, but 'w' coming up once Shift is released first
+  private onKeyDown = (event: Event): void => {
+    const { key, code, repeat } = event as KeyboardEvent;
+    // Prevent default for bound keys to stop page scrolling
+    if (this.isBound(key)) {
+      event.preventDefault();
     }
+    this.pressedKeys.set(code || key, key);
+    if (!repeat) {
+      this.queueCommand(COMMAND_KEYS[key]);
+    }
+  };
+
+  private onKeyUp = (event: Event): void => {
+    const { key, code } = event as KeyboardEvent;
+    this.pressedKeys.delete(code || key);
+  };
 
-    // Keep queue manageable
-    if (this.directionQueue.length > 5) {
-      this.directionQueue.shift();
+  // Keys released while the window is in the background never send keyup
+  private onBlur = (): void => {
+    this.pressedKeys.clear();
+    this.swipeStart = null;
+    this.swipeDirection = null;
+    this.touchDraw = false;
+    this.tapping = false;
+  };
+
+  private onTouchStart = (event: Event): void => {
+    const touches = (event as TouchEvent).touches;
+    event.preventDefault();
+    if (!this.swipeStart && touches.length > 0) {
+      const touch = touches[0];
+      this.swipeStart = { id: touch.identifier, x: touch.clientX, y: touch.clientY };
+      this.tapping = true;
     }
+    this.touchDraw = touches.length > 1;
+  };
+
+  private onTouchMove = (event: Event): void => {
+    event.preventDefault();
+    const touch = Array.from((event as TouchEvent).touches).find((t) => t.identifier === this.swipeStart?.id);
+    if (!touch || !this.swipeStart) return;
+
+    const dx = touch.clientX - this.swipeStart.x;
+    const dy = touch.clientY - this.swipeStart.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_DISTANCE) return;
+
+    this.tapping = false;
+    this.swipeDirection = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? 'right' : 'left') : dy > 0 ? 'down' : 'up';
+    // Measure the next swipe from here, so the finger can turn without lifting
+    this.swipeStart = { id: touch.identifier, x: touch.clientX, y: touch.clientY };
+  };
+
+  private onTouchEnd = (event: Event): void => {
+    const touches = Array.from((event as TouchEvent).touches);
+    if (!touches.some((t) => t.identifier === this.swipeStart?.id)) {
+      // A finger lifted without swiping is a tap, which confirms
+      if (this.tapping) this.queueCommand('confirm');
+      this.tapping = false;
+      this.swipeStart = null;
+      this.swipeDirection = null;
+    }
+    this.touchDraw = touches.length > 1;
+  };
+
+  private queueCommand(command: Command | undefined): void {
+    if (command && this.commandsEnabled) this.commands.push(command);
   }
 
-  private onKeyUp(e: KeyboardEvent): void {
-    this.keyState.set(e.key, false);
+  // Gamepad buttons only report whether they are held, so commands fire when one goes down
+  private pollCommandButtons(gamepads: ReadonlyArray<Gamepad>): void {
+    const pressed = new Set<number>();
+    for (const pad of gamepads) {
+      pad.buttons.forEach((button, index) => button.pressed && pressed.add(index));
+    }
+    for (const index of pressed) {
+      if (!this.pressedButtons.has(index)) this.queueCommand(COMMAND_BUTTONS[index]);
+    }
+    this.pressedButtons = pressed;
   }
 
-  // Get the next direction from queue, or current direction if no new input
-  getNextDirection(currentDirection: Direction): Direction {
-    if (this.directionQueue.length > 0) {
-      const next = this.directionQueue.shift()!;
-      this.lastDirection = next;
-      return next;
+  private isBound(key: string): boolean {
+    return ACTIONS.some((action) => this.bindings.keyboard[action].includes(key));
+  }
+
+  private isKeyHeld(keys: ReadonlyArray<string>): boolean {
+    for (const key of this.pressedKeys.values()) {
+      if (keys.includes(key)) return true;
     }
-    return this.lastDirection;
+    return false;
   }
 
-  // Check if any key is pressed
-  hasInput(): boolean {
-    return this.keyState.get('ArrowUp') === true ||
-           this.keyState.get('ArrowDown') === true ||
-           this.keyState.get('ArrowLeft') === true ||
-           this.keyState.get('ArrowRight') === true;
+  private isActive(action: Action, gamepads: ReadonlyArray<Gamepad>): boolean {
+    if (this.injectedActions.has(action) || this.swipeDirection === action) return true;
+    if ((action === 'fastDraw' && this.touchDraw) || this.isKeyHeld(this.bindings.keyboard[action])) return true;
+
+    return gamepads.some((pad) => {
+      if (this.bindings.gamepad[action].some((button) => pad.buttons[button]?.pressed)) return true;
+      const [x = 0, y = 0] = pad.axes;
+      switch (action) {
+        case 'up':
+          return y < -STICK_DEADZONE;
+        case 'down':
+          return y > STICK_DEADZONE;
+        case 'left':
+          return x < -STICK_DEADZONE;
+        case 'right':
+          return x > STICK_DEADZONE;
+        default:
+          return false;
+      }
+    });
   }
 
   // Get direction for continuous movement (e.g., while drawing)
   getContinuousDirection(): Direction | null {
-    if (this.keyState.get('ArrowUp')) return Direction.UP;
-    if (this.keyState.get('ArrowRight')) return Direction.RIGHT;
-    if (this.keyState.get('ArrowDown')) return Direction.DOWN;
-    if (this.keyState.get('ArrowLeft')) return Direction.LEFT;
-    return null;
+    return getInputDirection(this.getState());
+  }
+
+  // Capture the current actions for the simulation
+  getState(): InputState {
+    const gamepads = this.getOwnGamepads();
+    const state = { ...NO_INPUT };
+    for (const action of ACTIONS) {
+      state[action] = this.isActive(action, gamepads);
+    }
+    return state;
+  }
+
+  // Commands issued since the last call, oldest first. Gamepad buttons are polled here, so call this
+  // once per frame whatever the game is doing.
+  takeCommands(): Command[] {
+    this.pollCommandButtons(this.getOwnGamepads());
+    return this.commands.splice(0);
   }
 
-  // Check if SPACE is pressed (required to enter DRAW mode)
-  isSpacePressed(): boolean {
-    return this.keyState.get(' ') === true;
+  private getOwnGamepads(): Gamepad[] {
+    return getGamepads().filter((pad) => this.gamepad === null || pad.index === this.gamepad);
   }
 
   // Test helper: simulate a key press (for testing without actual DOM events)
   simulateKeyPress(key: string, pressed: boolean): void {
-    this.keyState.set(key, pressed);
     if (pressed) {
-      switch (key) {
-        case 'ArrowUp':
-          this.directionQueue.push(Direction.UP);
-          break;
-        case 'ArrowRight':
-          this.directionQueue.push(Direction.RIGHT);
-          break;
-        case 'ArrowDown':
-          this.directionQueue.push(Direction.DOWN);
-          break;
-        case 'ArrowLeft':
-          this.directionQueue.push(Direction.LEFT);
-          break;
-      }
-      // Keep queue manageable
-      if (this.directionQueue.length > 5) {
-        this.directionQueue.shift();
-      }
+      if (!this.pressedKeys.has(key)) this.queueCommand(COMMAND_KEYS[key]);
+      this.pressedKeys.set(key, key);
+    } else {
+      this.pressedKeys.delete(key);
+    }
+  }
+
+  // Test helper: switch an action on or off regardless of bindings
+  simulateAction(action: Action, active: boolean): void {
+    if (active) {
+      this.injectedActions.add(action);
+    } else {
+      this.injectedActions.delete(action);
     }
   }
 }
+
+function getGamepads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+    return [];
+  }
+  return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+}
@@ -0,0 +1,87 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LEVELS, LevelDefinition, createLevelGrid, getCaptureRule, loadLevels, parseLevels } from './levels';
+import { CellType } from './grid';
+import { Simulation } from './simulation';
+import { NO_INPUT } from './input';
+
+describe('Level definitions', () => {
+  const base: LevelDefinition = {
+    width: 40,
+    height: 30,
+    targetCoverage: 50,
+    qixCount: 0,
+    qixMoveInterval: 40,
+    sparxCount: 0,
+    sparxMoveInterval: 60,
+  };
+
+  it('should ship valid default levels', () => {
+    expect(DEFAULT_LEVELS.length).toBeGreaterThan(1);
+    expect(DEFAULT_LEVELS[0], 'First level should be the classic open board').toMatchObject({ width: 100, height: 100, targetCoverage: 75 });
+  });
+
+  it('should build blocks and walls onto the board', () => {
+    const grid = createLevelGrid({
+      ...base,
+      blocks: [
+        { x: 1, y: 1, width: 5, height: 4, type: 'filled' },
+        { x: 10, y: 15, width: 20, height: 1, type: 'wall' },
+      ],
+    });
+
+    expect(grid.getWidth()).toBe(40);
+    expect(grid.getHeight()).toBe(30);
+    expect(grid.getCell(5, 4), 'Block should be pre-filled').toBe(CellType.FILLED);
+    expect(grid.getCell(6, 4), 'Cells past the block should stay empty').toBe(CellType.EMPTY);
+    expect(grid.getCell(29, 15), 'Wall should be a walkable border').toBe(CellType.BORDER);
+    expect(grid.isTraversable(20, 15)).toBe(true);
+  });
+
+  it('should capture around the Qix unless the level has none', () => {
+    expect(getCaptureRule({ ...base, qixCount: 1 })).toBe('enemy');
+    expect(getCaptureRule(base), 'Enemy-free levels keep the largest region open').toBe('largest');
+    expect(getCaptureRule({ ...base, qixCount: 1, captureRule: 'largest' })).toBe('largest');
+  });
+
+  it('should name the bad field in malformed level files', () => {
+    expect(() => loadLevels('{')).toThrow('not valid JSON');
+    expect(() => loadLevels('[]')).toThrow('non-empty array');
+    expect(() => parseLevels([base, { ...base, targetCoverage: 150 }])).toThrow('levels[1].targetCoverage must be a number between 1 and 100');
+    expect(() => parseLevels([{ ...base, width: '40' }])).toThrow('levels[0].width must be an integer');
+    expect(() => parseLevels([{ ...base, captureRule: 'smallest' }])).toThrow('levels[0].captureRule must be "enemy" or "largest"');
+    expect(() => parseLevels([{ ...base, sparxCount: undefined }])).toThrow('levels[0].sparxCount');
+    expect(() => parseLevels([{ ...base, blocks: [{ x: 35, y: 1, width: 10, height: 1, type: 'wall' }] }])).toThrow(
+      'levels[0].blocks[0].width must be an integer between 1 and 5',
+    );
+    expect(() => parseLevels([{ ...base, blocks: [{ x: 1, y: 1, width: 1, height: 1, type: 'lava' }] }])).toThrow(
+      'levels[0].blocks[0].type must be "filled" or "wall"',
+    );
+    expect(() => parseLevels([{ ...base, spawn: { x: 20, y: 15 } }])).toThrow('levels[0].spawn (20, 15) must be on a border');
+  });
+
+  it('should step through the level list and start over after the last level', () => {
+    const levels: LevelDefinition[] = [
+      { ...base, name: 'first', targetCoverage: 20 },
+      { ...base, name: 'second', width: 60, height: 20, spawn: { x: 0, y: 10 }, targetCoverage: 20 },
+    ];
+    const simulation = new Simulation({ levels, seed: 1 });
+    expect(simulation.getGrid().getWidth()).toBe(40);
+
+    // Draw straight up through the narrow board from the bottom-centre spawn
+    for (let i = 0; i < 200 && simulation.getLevel() === 1; i++) {
+      simulation.step({ ...NO_INPUT, up: true, fastDraw: true });
+    }
+    expect(simulation.getLevel(), 'Capture should clear the first level').toBe(2);
+    expect(simulation.getGrid().getWidth(), 'Second level should use its own size').toBe(60);
+    expect(simulation.getGrid().getHeight()).toBe(20);
+    expect(simulation.getPlayer(), 'Player should start at the level spawn').toMatchObject({ x: 0, y: 10 });
+
+    // Draw straight right across the second board from its left-edge spawn
+    for (let i = 0; i < 300 && simulation.getLevel() === 2; i++) {
+      simulation.step({ ...NO_INPUT, right: true, fastDraw: true });
+    }
+    expect(simulation.getLevel(), 'Capture should clear the second level').toBe(3);
+    expect(simulation.getGrid().getWidth(), 'Level 3 should start the list over').toBe(40);
+  });
+});
@@ -0,0 +1,184 @@
+import { Grid, CellType, Point, CaptureRule } from './grid';
+import defaultLevels from './levels.json';
+
+// A rectangle of pre-filled territory or an internal wall (BORDER cells the player can walk along)
+export interface LevelBlock {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: 'filled' | 'wall';
+}
+
+// One level as stored in a level file
+export interface LevelDefinition {
+  name?: string;
+  width: number;
+  height: number;
+  targetCoverage: number; // percent
+  spawn?: Point; // defaults to bottom centre
+  blocks?: LevelBlock[];
+  qixCount: number;
+  qixMoveInterval: number; // ms between Qix steps
+  sparxCount: number;
+  sparxMoveInterval: number; // ms between Sparx steps
+  captureRule?: CaptureRule; // defaults to 'enemy', or 'largest' when the level has no Qix
+}
+
+const MIN_GRID_SIZE = 10;
+const MAX_GRID_SIZE = 2000;
+
+export const DEFAULT_LEVELS: ReadonlyArray<LevelDefinition> = parseLevels(defaultLevels);
+
+// Level n plays levels[(n - 1) % levels.length]; after the last level the list starts over
+export function getLevelDefinition(levels: ReadonlyArray<LevelDefinition>, level: number): LevelDefinition {
+  return levels[(Math.max(level, 1) - 1) % levels.length];
+}
+
+// Build the starting board for a level: empty grid with border, then blocks and walls
+export function createLevelGrid(definition: LevelDefinition): Grid {
+  const grid = new Grid(definition.width, definition.height);
+  for (const block of definition.blocks ?? []) {
+    const type = block.type === 'wall' ? CellType.BORDER : CellType.FILLED;
+    for (let y = block.y; y < block.y + block.height; y++) {
+      for (let x = block.x; x < block.x + block.width; x++) {
+        grid.setCell(x, y, type);
+      }
+    }
+  }
+  return grid;
+}
+
+// Inverse of createLevelGrid: describe the non-empty cells inside the outer border as one-row blocks
+export function gridToBlocks(grid: Grid): LevelBlock[] {
+  const blocks: LevelBlock[] = [];
+  for (let y = 1; y < grid.getHeight() - 1; y++) {
+    let x = 1;
+    while (x < grid.getWidth() - 1) {
+      const cell = grid.getCell(x, y);
+      const type = cell === CellType.BORDER ? 'wall' : cell === CellType.FILLED ? 'filled' : null;
+      if (!type) {
+        x++;
+        continue;
+      }
+
+      const start = x;
+      while (x < grid.getWidth() - 1 && grid.getCell(x, y) === cell) {
+        x++;
+      }
+      blocks.push({ x: start, y, width: x - start, height: 1, type });
+    }
+  }
+  return blocks;
+}
+
+export function getSpawnPoint(definition: LevelDefinition): Point {
+  return definition.spawn ?? { x: Math.floor(definition.width / 2), y: definition.height - 1 };
+}
+
+// Without a Qix the classic rule would capture the whole board, so enemy-free levels fall back to 'largest'
+export function getCaptureRule(definition: LevelDefinition): CaptureRule {
+  return definition.captureRule ?? (definition.qixCount > 0 ? 'enemy' : 'largest');
+}
+
+// Parse a level file (a JSON array of levels), throwing an error that names the first bad field
+export function loadLevels(json: string): LevelDefinition[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Level file is not valid JSON');
+  }
+  return parseLevels(data);
+}
+
+export function parseLevels(data: unknown): LevelDefinition[] {
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error('Level file must be a non-empty array of levels');
+  }
+  return data.map((level, index) => parseLevel(level, `levels[${index}]`));
+}
+
+export function parseLevel(data: unknown, path: string = 'level'): LevelDefinition {
+  if (!isObject(data)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  if (data.name !== undefined && typeof data.name !== 'string') {
+    throw new Error(`${path}.name must be a string`);
+  }
+  if (data.captureRule !== undefined && data.captureRule !== 'enemy' && data.captureRule !== 'largest') {
+    throw new Error(`${path}.captureRule must be "enemy" or "largest"`);
+  }
+  const width = requireInteger(data.width, `${path}.width`, MIN_GRID_SIZE, MAX_GRID_SIZE);
+  const height = requireInteger(data.height, `${path}.height`, MIN_GRID_SIZE, MAX_GRID_SIZE);
+  const targetCoverage = requireNumber(data.targetCoverage, `${path}.targetCoverage`, 1, 100);
+  const qixCount = requireInteger(data.qixCount, `${path}.qixCount`, 0, 10);
+  const qixMoveInterval = requireNumber(data.qixMoveInterval, `${path}.qixMoveInterval`, 1, 10000);
+  const sparxCount = requireInteger(data.sparxCount, `${path}.sparxCount`, 0, 10);
+  const sparxMoveInterval = requireNumber(data.sparxMoveInterval, `${path}.sparxMoveInterval`, 1, 10000);
+
+  let blocks: LevelBlock[] | undefined;
+  if (data.blocks !== undefined) {
+    if (!Array.isArray(data.blocks)) {
+      throw new Error(`${path}.blocks must be an array`);
+    }
+    blocks = data.blocks.map((block, index) => parseBlock(block, `${path}.blocks[${index}]`, width, height));
+  }
+
+  const definition: LevelDefinition = { width, height, targetCoverage, qixCount, qixMoveInterval, sparxCount, sparxMoveInterval };
+  if (data.name !== undefined) definition.name = data.name as string;
+  if (blocks) definition.blocks = blocks;
+  if (data.captureRule !== undefined) definition.captureRule = data.captureRule as CaptureRule;
+
+  if (data.spawn !== undefined) {
+    if (!isObject(data.spawn)) {
+      throw new Error(`${path}.spawn must be an object with x and y`);
+    }
+    definition.spawn = {
+      x: requireInteger(data.spawn.x, `${path}.spawn.x`, 0, width - 1),
+      y: requireInteger(data.spawn.y, `${path}.spawn.y`, 0, height - 1),
+    };
+  }
+
+  // The player has to start on the edge network
+  const spawn = getSpawnPoint(definition);
+  if (!createLevelGrid(definition).isTraversable(spawn.x, spawn.y)) {
+    throw new Error(`${path}.spawn (${spawn.x}, ${spawn.y}) must be on a border, wall or filled edge cell`);
+  }
+
+  return definition;
+}
+
+function parseBlock(data: unknown, path: string, gridWidth: number, gridHeight: number): LevelBlock {
+  if (!isObject(data)) {
+    throw new Error(`${path} must be an object`);
+  }
+  if (data.type !== 'filled' && data.type !== 'wall') {
+    throw new Error(`${path}.type must be "filled" or "wall"`);
+  }
+
+  const x = requireInteger(data.x, `${path}.x`, 0, gridWidth - 1);
+  const y = requireInteger(data.y, `${path}.y`, 0, gridHeight - 1);
+  const width = requireInteger(data.width, `${path}.width`, 1, gridWidth - x);
+  const height = requireInteger(data.height, `${path}.height`, 1, gridHeight - y);
+  return { x, y, width, height, type: data.type };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireNumber(value: unknown, field: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${field} must be a number between ${min} and ${max}, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function requireInteger(value: unknown, field: string, min: number, max: number): number {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new Error(`${field} must be an integer between ${min} and ${max}, got ${JSON.stringify(value)}`);
+  }
+  return value as number;
+}
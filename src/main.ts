@@ -1,4 +1,31 @@
-import { Game } from './game';
+import { Game, AUTOSAVE_KEY } from './game';
+import { importRecording } from './recording';
+import { decodeSnapshot } from './snapshot';
+import { LevelEditor, EditorTool } from './editor';
+import { SoundEffects } from './audio';
+import { PlayMode } from './player';
+import { Difficulty } from './difficulty';
+import { LockstepClient, DEFAULT_RELAY_PORT, connectToRelay } from './netplay';
+
+let game: Game | null = null;
+let editor: LevelEditor | null = null;
+const sound = new SoundEffects();
+let detachSound: (() => void) | null = null;
+let mode: PlayMode = 'single'; // for new games from the title screen
+let difficulty: Difficulty = 'normal';
+let queued: LockstepClient | null = null; // online client still waiting for a partner
+
+// Replace the running game (or stop it, with null); sound effects follow whichever game is running.
+// Starting anything else gives up waiting for an online partner.
+function setGame(next: Game | null) {
+  queued?.leave();
+  queued = null;
+  detachSound?.();
+  game?.dispose();
+  game = next;
+  detachSound = next ? sound.attach(next) : null;
+  next?.start();
+}
 
 // Wait for DOM to be ready
 function main() {
@@ -11,10 +38,244 @@ function main() {
   }
 
   console.log('Canvas found, creating game...');
-  const game = new Game(canvas);
-  console.log('Game created, starting...');
-  game.start();
+  setGame(new Game(canvas, { title: true }));
   console.log('Game started!');
+
+  setupReplayControls(canvas);
+  setupModeSelect(canvas);
+  setupDifficultySelect(canvas);
+  setupOnline(canvas);
+  setupSoundControls();
+  setupContinue(canvas);
+  setupEditor(canvas);
+}
+
+// Level editor: paint a board, play-test it straight away, and export or import it as a level file
+function setupEditor(canvas: HTMLCanvasElement) {
+  const panel = document.getElementById('editor');
+  const gameBar = document.getElementById('replay');
+  const status = document.getElementById('editorStatus');
+  const target = document.getElementById('editorTarget') as HTMLInputElement | null;
+  const playButton = document.getElementById('editorPlay');
+  const backButton = document.getElementById('editorBack');
+  const importInput = document.getElementById('editorImport') as HTMLInputElement | null;
+  const toolButtons = Array.from(document.querySelectorAll<HTMLButtonElement>('#editor [data-tool]'));
+  if (!panel || !gameBar || !status || !target || !playButton || !backButton || !importInput) return;
+
+  const showStatus = (message: string) => {
+    status.textContent = message;
+  };
+
+  const syncControls = () => {
+    if (!editor) return;
+    target.value = editor.getTargetCoverage().toString();
+    toolButtons.forEach((button) => button.classList.toggle('active', button.dataset.tool === editor!.getTool()));
+  };
+
+  const editAgain = () => {
+    setGame(null);
+    editor?.attach();
+    playButton.hidden = false;
+    backButton.hidden = true;
+    showStatus('');
+  };
+
+  document.getElementById('openEditor')?.addEventListener('click', () => {
+    setGame(null);
+    editor = new LevelEditor(canvas);
+    editor.attach();
+    syncControls();
+    gameBar.hidden = true;
+    panel.hidden = false;
+  });
+
+  document.getElementById('editorExit')?.addEventListener('click', () => {
+    editor?.detach();
+    editor = null;
+    panel.hidden = true;
+    gameBar.hidden = false;
+    showStatus('');
+    setGame(new Game(canvas, { title: true, mode, difficulty }));
+  });
+
+  toolButtons.forEach((button) =>
+    button.addEventListener('click', () => {
+      editor?.setTool(button.dataset.tool as EditorTool);
+      syncControls();
+    })
+  );
+
+  target.addEventListener('change', () => {
+    editor?.setTargetCoverage(Number(target.value));
+  });
+
+  playButton.addEventListener('click', () => {
+    if (!editor) return;
+    try {
+      const level = editor.toLevel();
+      editor.detach();
+      setGame(new Game(canvas, { levels: [level], storage: null }));
+      playButton.hidden = true;
+      backButton.hidden = false;
+      showStatus('Play-testing - the level repeats until you go back to the editor');
+    } catch (error) {
+      showStatus((error as Error).message);
+    }
+  });
+
+  backButton.addEventListener('click', editAgain);
+
+  document.getElementById('editorExport')?.addEventListener('click', () => {
+    if (!editor) return;
+    try {
+      const blob = new Blob([editor.exportJSON()], { type: 'application/json' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'qix-level.json';
+      link.click();
+      URL.revokeObjectURL(link.href);
+      showStatus('');
+    } catch (error) {
+      showStatus((error as Error).message);
+    }
+  });
+
+  importInput.addEventListener('change', async () => {
+    const file = importInput.files?.[0];
+    if (!file || !editor) return;
+    try {
+      editAgain();
+      editor.importJSON(await file.text());
+      syncControls();
+    } catch (error) {
+      showStatus(`Could not import level: ${(error as Error).message}`);
+    } finally {
+      importInput.value = '';
+    }
+  });
+}
+
+// Offer to resume the game autosaved at the last level transition
+function setupContinue(canvas: HTMLCanvasElement) {
+  const button = document.getElementById('continueGame');
+  const saved = localStorage.getItem(AUTOSAVE_KEY);
+  if (!button || !saved) return;
+
+  let level: number;
+  try {
+    level = decodeSnapshot(saved).level;
+  } catch (error) {
+    console.warn('Discarding unusable autosave:', error);
+    localStorage.removeItem(AUTOSAVE_KEY);
+    return;
+  }
+
+  button.textContent = `Continue (level ${level})`;
+  button.hidden = false;
+  button.addEventListener('click', () => {
+    setGame(Game.fromSnapshot(canvas, saved));
+    button.hidden = true;
+    console.log('Resumed saved game');
+  });
+}
+
+// Start a new game whenever the number of players or the two-player mode changes
+function setupModeSelect(canvas: HTMLCanvasElement) {
+  const select = document.getElementById('mode') as HTMLSelectElement | null;
+  select?.addEventListener('change', () => {
+    mode = select.value as PlayMode;
+    setGame(new Game(canvas, { title: true, mode, difficulty }));
+    select.blur(); // so the arrow keys steer instead of changing the selection
+  });
+}
+
+// Start a new game on the title screen whenever the difficulty changes
+function setupDifficultySelect(canvas: HTMLCanvasElement) {
+  const select = document.getElementById('difficulty') as HTMLSelectElement | null;
+  select?.addEventListener('change', () => {
+    difficulty = select.value as Difficulty;
+    setGame(new Game(canvas, { title: true, mode, difficulty }));
+    select.blur();
+  });
+}
+
+// Play the selected two-player mode against someone else through the relay, found on the page's own host
+// unless the address says otherwise, e.g. ?relay=ws://example.com:8080
+function setupOnline(canvas: HTMLCanvasElement) {
+  const button = document.getElementById('playOnline');
+  const status = document.getElementById('onlineStatus');
+  if (!button || !status) return;
+
+  const url = new URLSearchParams(location.search).get('relay') ?? `ws://${location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+  const showStatus = (message: string) => {
+    status.textContent = message;
+  };
+
+  button.addEventListener('click', () => {
+    setGame(null);
+    const client = connectToRelay(url, mode === 'versus' ? 'versus' : 'coop');
+    queued = client;
+    showStatus('Waiting for a partner...');
+    client.on('started', ({ player, mode: onlineMode }) => {
+      queued = null;
+      setGame(new Game(canvas, { online: client }));
+      showStatus(`Online ${onlineMode === 'versus' ? 'versus' : 'co-op'} as player ${player + 1}`);
+    });
+    client.on('disconnected', ({ reason }) => showStatus(reason));
+    client.on('desync', ({ tick }) => showStatus(`Out of sync with your partner at tick ${tick}; the game stopped`));
+  });
+}
+
+// Master volume slider and mute button, kept between visits
+function setupSoundControls() {
+  const muteButton = document.getElementById('mute');
+  const volume = document.getElementById('volume') as HTMLInputElement | null;
+  if (!muteButton || !volume) return;
+
+  const sync = () => {
+    const settings = sound.getSettings();
+    muteButton.textContent = settings.muted ? 'Unmute' : 'Mute';
+    volume.value = Math.round(settings.volume * 100).toString();
+  };
+
+  muteButton.addEventListener('click', () => {
+    sound.toggleMute();
+    sync();
+  });
+  volume.addEventListener('input', () => sound.setVolume(Number(volume.value) / 100));
+  sync();
+}
+
+// Save the current session as a replay file, or load one and watch it play back
+function setupReplayControls(canvas: HTMLCanvasElement) {
+  const saveButton = document.getElementById('saveReplay');
+  const loadInput = document.getElementById('loadReplay') as HTMLInputElement | null;
+
+  saveButton?.addEventListener('click', () => {
+    if (!game) return;
+    const blob = new Blob([game.exportRecording()], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `qix-replay-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
+
+  loadInput?.addEventListener('change', async () => {
+    const file = loadInput.files?.[0];
+    if (!file) return;
+
+    try {
+      const recording = importRecording(await file.text());
+      setGame(new Game(canvas, { replay: recording }));
+      console.log('Replay started');
+    } catch (error) {
+      console.error('Could not load replay:', error);
+      alert(`Could not load replay: ${(error as Error).message}`);
+    } finally {
+      loadInput.value = '';
+    }
+  });
 }
 
 // Start when DOM is loaded
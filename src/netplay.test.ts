@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { LockstepClient, LockstepClientOptions, OnlineMode, parseNetMessage } from './netplay';
+import { Relay } from './relay';
+import { Simulation } from './simulation';
+import { InputState, NO_INPUT } from './input';
+import { CellType } from './grid';
+
+describe('Lockstep netplay', () => {
+  const SEED = 2;
+  let relay: Relay | null = null;
+
+  afterEach(async () => {
+    await relay?.close();
+    relay = null;
+  });
+
+  const input = (overrides: Partial<InputState>): InputState => ({ ...NO_INPUT, ...overrides });
+
+  // Player 1 draws up from the spawn and player 2 wanders along the bottom edge
+  const script = (player: number, tick: number): InputState => {
+    if (player === 0) return tick < 400 ? input({ up: true, fastDraw: true }) : input({ left: true });
+    return input({ left: (tick >> 6) % 2 === 0, right: (tick >> 6) % 2 === 1 });
+  };
+
+  const wait = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 1));
+
+  const until = async (done: () => boolean, timeout: number = 5000): Promise<void> => {
+    const deadline = Date.now() + timeout;
+    while (!done()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for the relay');
+      await wait();
+    }
+  };
+
+  // A headless client talking to the relay over a real socket on localhost
+  const connect = (port: number, mode: OnlineMode, options: Partial<LockstepClientOptions> = {}): LockstepClient => {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    const client = new LockstepClient({ ...options, send: (message) => socket.send(message), close: () => socket.close() });
+    socket.on('open', () => client.join(mode));
+    socket.on('message', (data) => client.receive(data.toString()));
+    socket.on('close', () => client.disconnect('Connection closed'));
+    return client;
+  };
+
+  const startMatch = async (mode: OnlineMode, options: Partial<LockstepClientOptions> = {}): Promise<LockstepClient[]> => {
+    relay = new Relay({ port: 0, host: '127.0.0.1', seed: () => SEED });
+    const port = await relay.listen();
+    const clients = [connect(port, mode, options), connect(port, mode, options)];
+    await until(() => clients.every((client) => client.isStarted()));
+    return clients;
+  };
+
+  // Tick both clients like two game loops would until both have played the ticks or stopped;
+  // returns the inputs each one played
+  const play = async (clients: LockstepClient[], ticks: number): Promise<InputState[][][]> => {
+    const played: InputState[][][] = clients.map(() => []);
+    const running = (client: LockstepClient) => !client.isStopped() && client.getSimulation().getTick() < ticks;
+    await until(() => {
+      clients.forEach((client, index) => {
+        if (running(client)) {
+          const inputs = client.tick(script(client.getPlayer(), client.getSimulation().getTick() + 1));
+          if (inputs) played[index].push(inputs);
+        }
+      });
+      return !clients.some(running);
+    }, 20000);
+    return played;
+  };
+
+  it('should keep two clients in step through the relay', async () => {
+    const clients = await startMatch('coop', { hashInterval: 50 });
+    const desyncs: number[] = [];
+    clients.forEach((client) => client.on('desync', ({ tick }) => desyncs.push(tick)));
+    expect(clients.map((client) => client.getPlayer()).sort()).toEqual([0, 1]);
+
+    const [first, second] = await play(clients, 800);
+
+    expect(second, 'Both clients should play every tick with the same inputs').toEqual(first);
+    expect(first).toHaveLength(800);
+    expect(desyncs).toEqual([]);
+    const [a, b] = clients.map((client) => client.getSimulation());
+    expect(b.getGrid().hash()).toBe(a.getGrid().hash());
+    expect(b.getScore()).toBe(a.getScore());
+    expect(a.getCoverage(), 'Player 1 should have captured something').toBeGreaterThan(20);
+
+    // The same inputs give the same game offline
+    const local = new Simulation({ seed: SEED, mode: 'coop' });
+    first.forEach((inputs) => local.step(inputs));
+    expect(local.getGrid().hash()).toBe(a.getGrid().hash());
+  });
+
+  it('should stop both clients when their boards differ', async () => {
+    const clients = await startMatch('versus', { hashInterval: 20 });
+    const desyncs: Array<[number, number]> = [];
+    clients.forEach((client) => client.on('desync', ({ tick }) => desyncs.push([client.getPlayer(), tick])));
+
+    clients[1].getSimulation().getGrid().setCell(1, 1, CellType.FILLED);
+    await play(clients, 100);
+
+    expect(desyncs.sort()).toEqual([
+      [0, 20],
+      [1, 20],
+    ]);
+    expect(clients.every((client) => client.isStopped())).toBe(true);
+  });
+
+  it('should tell the remaining player when the other leaves', async () => {
+    const clients = await startMatch('coop');
+    const reasons: string[] = [];
+    clients[1].on('disconnected', ({ reason }) => reasons.push(reason));
+
+    clients[0].leave();
+    await until(() => clients[1].isStopped());
+
+    expect(reasons).toEqual(['Your partner left the game']);
+    expect(clients[1].tick(NO_INPUT), 'A stopped client plays no more ticks').toBeNull();
+  });
+
+  it('should reject malformed messages', () => {
+    expect(parseNetMessage('{"type":"input","tick":3,"input":5}')).toEqual({ type: 'input', tick: 3, input: 5 });
+    expect(() => parseNetMessage('{"type":"join","version":1,"mode":"single"}')).toThrow('Net message mode is invalid: single');
+    expect(() => parseNetMessage('{"type":"hash","tick":-1,"hash":0}')).toThrow('Net message tick must be a non-negative integer');
+    expect(() => parseNetMessage('{"type":"state"}')).toThrow('Net message type is invalid: state');
+  });
+});
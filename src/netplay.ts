@@ -0,0 +1,293 @@
+import { Simulation, GameEvents } from './simulation';
+import { InputState } from './input';
+import { encodeInput, decodeInput } from './recording';
+import { PlayMode } from './player';
+import { EventBus, Listener } from './events';
+
+export const NETPLAY_VERSION = 4;
+export const DEFAULT_RELAY_PORT = 8080;
+export const DEFAULT_INPUT_DELAY = 6; // ticks between sampling input and playing it, to hide the round trip
+export const DEFAULT_HASH_INTERVAL = 100; // ticks between board comparisons
+
+// Online games always have two players
+export type OnlineMode = Exclude<PlayMode, 'single'>;
+export const ONLINE_MODES: ReadonlyArray<OnlineMode> = ['coop', 'versus'];
+
+// Everything that travels between clients and the relay, one JSON object per WebSocket message
+export type NetMessage =
+  | { type: 'join'; version: number; mode: OnlineMode } // client: find me a partner
+  | { type: 'start'; player: number; seed: number; mode: OnlineMode } // relay: a match was made
+  | { type: 'input'; tick: number; input: number } // client, passed on to the partner: a tick's input bitmask
+  | { type: 'hash'; tick: number; hash: number } // client, passed on to the partner: the board hash after a tick
+  | { type: 'left' } // relay: the partner disconnected
+  | { type: 'error'; message: string }; // relay: the last message was refused
+
+export function encodeNetMessage(message: NetMessage): string {
+  return JSON.stringify(message);
+}
+
+// Check a received message, throwing an error that names the first bad field
+export function parseNetMessage(json: string): NetMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Net message is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Net message must be an object');
+  }
+
+  const message = data as Record<string, unknown>;
+  const requireInteger = (field: string): void => {
+    const value = message[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(`Net message ${field} must be a non-negative integer`);
+    }
+  };
+  const requireMode = (): void => {
+    if (!ONLINE_MODES.includes(message.mode as OnlineMode)) {
+      throw new Error(`Net message mode is invalid: ${String(message.mode)}`);
+    }
+  };
+
+  switch (message.type) {
+    case 'join':
+      requireInteger('version');
+      requireMode();
+      break;
+    case 'start':
+      requireInteger('player');
+      requireInteger('seed');
+      requireMode();
+      if ((message.player as number) > 1) {
+        throw new Error('Net message player must be 0 or 1');
+      }
+      break;
+    case 'input':
+      requireInteger('tick');
+      requireInteger('input');
+      break;
+    case 'hash':
+      requireInteger('tick');
+      requireInteger('hash');
+      break;
+    case 'left':
+      break;
+    case 'error':
+      if (typeof message.message !== 'string') {
+        throw new Error('Net message message must be a string');
+      }
+      break;
+    default:
+      throw new Error(`Net message type is invalid: ${String(message.type)}`);
+  }
+  return message as NetMessage;
+}
+
+export interface NetplayEvents {
+  started: { player: number; seed: number; mode: OnlineMode }; // the local player's index
+  desync: { tick: number; local: number; remote: number }; // board hashes after the tick
+  disconnected: { reason: string };
+}
+
+export interface LockstepClientOptions {
+  send: (message: string) => void; // delivers a message to the relay
+  close?: () => void; // closes the connection when leaving
+  inputDelay?: number; // defaults to DEFAULT_INPUT_DELAY
+  hashInterval?: number; // defaults to DEFAULT_HASH_INTERVAL
+  events?: EventBus<GameEvents>; // receives what happens in the simulation
+}
+
+// One side of an online game. Both clients run the same seeded Simulation and only ever step it with
+// both players' input for a tick, so the two copies stay identical without sending any game state.
+// Every hashInterval ticks the boards are hashed and compared to catch a desync.
+// The client only speaks strings, so it runs over a browser WebSocket, a Node one, or none in tests.
+export class LockstepClient {
+  private sendMessage: (message: string) => void;
+  private closeConnection: (() => void) | null;
+  private inputDelay: number;
+  private hashInterval: number;
+  private gameEvents: EventBus<GameEvents>;
+  private netEvents: EventBus<NetplayEvents> = new EventBus();
+  private simulation: Simulation | null = null;
+  private player: number = 0;
+  private seed: number = 0;
+  private inputs: Array<Map<number, number>> = [new Map(), new Map()]; // per player, tick to input bitmask
+  private nextInputTick: number = 1; // first tick the local input has not been sent for
+  private hashes: Array<Map<number, number>> = [new Map(), new Map()]; // local then remote, tick to hash
+  private stopped: boolean = false;
+
+  constructor(options: LockstepClientOptions) {
+    this.sendMessage = options.send;
+    this.closeConnection = options.close ?? null;
+    this.inputDelay = options.inputDelay ?? DEFAULT_INPUT_DELAY;
+    this.hashInterval = options.hashInterval ?? DEFAULT_HASH_INTERVAL;
+    this.gameEvents = options.events ?? new EventBus();
+  }
+
+  // Ask the relay for a partner who wants the same mode
+  join(mode: OnlineMode): void {
+    this.send({ type: 'join', version: NETPLAY_VERSION, mode });
+  }
+
+  // Handle a message from the relay; malformed ones are dropped
+  receive(json: string): void {
+    let message: NetMessage;
+    try {
+      message = parseNetMessage(json);
+    } catch (error) {
+      console.warn('Ignoring net message:', error);
+      return;
+    }
+
+    switch (message.type) {
+      case 'start':
+        this.start(message.player, message.seed, message.mode);
+        break;
+      case 'input':
+        this.inputs[1 - this.player].set(message.tick, message.input);
+        break;
+      case 'hash':
+        this.hashes[1].set(message.tick, message.hash);
+        this.compareHashes(message.tick);
+        break;
+      case 'left':
+        this.disconnect('Your partner left the game');
+        break;
+      case 'error':
+        this.disconnect(`Relay refused: ${message.message}`);
+        break;
+      case 'join': // only the relay is asked to join
+        break;
+    }
+  }
+
+  private start(player: number, seed: number, mode: OnlineMode): void {
+    if (this.simulation) {
+      return;
+    }
+    this.player = player;
+    this.seed = seed;
+    // Online matches always play on the default difficulty
+    this.simulation = new Simulation({ seed, mode, events: this.gameEvents });
+    // Nobody could have sent input for the first ticks, so both clients play them with none
+    for (let tick = 1; tick <= this.inputDelay; tick++) {
+      this.inputs.forEach((inputs) => inputs.set(tick, 0));
+    }
+    this.nextInputTick = this.inputDelay + 1;
+    this.netEvents.emit('started', { player, seed, mode });
+  }
+
+  // Call once per tick of game time with the local player's input. The input is sent for the tick
+  // inputDelay ahead, then the next tick is played if both players' input for it has arrived.
+  // Returns the inputs the tick was played with, or null while waiting for the partner.
+  tick(input: InputState): InputState[] | null {
+    const simulation = this.simulation;
+    if (!simulation || this.stopped || simulation.isGameOver()) {
+      return null;
+    }
+
+    const next = simulation.getTick() + 1;
+    if (this.nextInputTick <= next + this.inputDelay) {
+      const mask = encodeInput(input);
+      this.inputs[this.player].set(this.nextInputTick, mask);
+      this.send({ type: 'input', tick: this.nextInputTick, input: mask });
+      this.nextInputTick++;
+    }
+
+    const masks = this.inputs.map((inputs) => inputs.get(next));
+    if (masks.some((mask) => mask === undefined)) {
+      return null;
+    }
+    this.inputs.forEach((inputs) => inputs.delete(next));
+    const played = masks.map((mask) => decodeInput(mask!));
+    simulation.step(played);
+
+    if (next % this.hashInterval === 0) {
+      const hash = simulation.getGrid().hash();
+      this.hashes[0].set(next, hash);
+      this.send({ type: 'hash', tick: next, hash });
+      this.compareHashes(next);
+    }
+    return played;
+  }
+
+  // Once both hashes for a tick are known they must match; a desync stops the game
+  private compareHashes(tick: number): void {
+    const [local, remote] = this.hashes.map((hashes) => hashes.get(tick));
+    if (local === undefined || remote === undefined) {
+      return;
+    }
+    this.hashes.forEach((hashes) => hashes.delete(tick));
+    if (local !== remote && !this.stopped) {
+      this.stopped = true;
+      this.netEvents.emit('desync', { tick, local, remote });
+    }
+  }
+
+  // Stop playing, e.g. when the connection is lost; nothing is reported after a desync already stopped the game
+  disconnect(reason: string): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    this.netEvents.emit('disconnected', { reason });
+  }
+
+  // Disconnect on purpose
+  leave(): void {
+    this.disconnect('You left the game');
+    this.closeConnection?.();
+    this.closeConnection = null;
+  }
+
+  private send(message: NetMessage): void {
+    if (!this.stopped) {
+      this.sendMessage(encodeNetMessage(message));
+    }
+  }
+
+  isStarted(): boolean {
+    return this.simulation !== null;
+  }
+
+  // Whether the game stopped for good after a desync or disconnect
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  getSimulation(): Simulation {
+    if (!this.simulation) {
+      throw new Error('Online game has not started yet');
+    }
+    return this.simulation;
+  }
+
+  // Local player's index
+  getPlayer(): number {
+    return this.player;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getGameEvents(): EventBus<GameEvents> {
+    return this.gameEvents;
+  }
+
+  on<K extends keyof NetplayEvents>(type: K, listener: Listener<NetplayEvents[K]>): () => void {
+    return this.netEvents.on(type, listener);
+  }
+}
+
+// Connect to a relay with the browser's WebSocket and ask for a partner as soon as the connection opens
+export function connectToRelay(url: string, mode: OnlineMode, options: Omit<LockstepClientOptions, 'send' | 'close'> = {}): LockstepClient {
+  const socket = new WebSocket(url);
+  const client = new LockstepClient({ ...options, send: (message) => socket.send(message), close: () => socket.close() });
+  socket.addEventListener('open', () => client.join(mode));
+  socket.addEventListener('message', (event) => client.receive(String(event.data)));
+  socket.addEventListener('close', () => client.disconnect('Lost the connection to the relay'));
+  return client;
+}
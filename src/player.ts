@@ -1,5 +1,5 @@
-import { Grid } from './grid';
-import { Direction, InputHandler } from './input';
+import { Grid, CellType } from './grid';
+import { Direction, InputState } from './input';
 
 export type { Direction };
 
@@ -8,24 +8,40 @@ export enum PlayerMode {
   DRAW = 'draw'
 }
 
+export enum DrawSpeed {
+  FAST = 'fast',
+  SLOW = 'slow'
+}
+
+// Single player, two players sharing the board's target, or two players racing for the bigger share
+export type PlayMode = 'single' | 'coop' | 'versus';
+
+export const PLAY_MODES: ReadonlyArray<PlayMode> = ['single', 'coop', 'versus'];
+
+export function getPlayerCount(mode: PlayMode): number {
+  return mode === 'single' ? 1 : 2;
+}
+
 export interface Player {
   x: number;
   y: number;
   mode: PlayerMode;
   direction: Direction;
+  drawSpeed: DrawSpeed; // speed of the current (or last) line
   linePath: Array<{ x: number; y: number }>;
 }
 
-export function createPlayer(grid: Grid): Player {
-  // Start at bottom-center
-  const startX = Math.floor(grid.getWidth() / 2);
-  const startY = grid.getHeight() - 1;
+export function createPlayer(grid: Grid, spawn?: { x: number; y: number }): Player {
+  // Start at the level's spawn point, or bottom-center
+  const startX = spawn?.x ?? Math.floor(grid.getWidth() / 2);
+  const startY = spawn?.y ?? grid.getHeight() - 1;
 
   return {
     x: startX,
     y: startY,
     mode: PlayerMode.TRAVERSE,
     direction: Direction.UP,
+    drawSpeed: DrawSpeed.FAST,
     linePath: []
   };
 }
@@ -42,7 +58,8 @@ export function movePlayer(
   player: Player,
   grid: Grid,
   direction: Direction,
-  inputHandler: InputHandler
+  input: InputState,
+  owner: number = 0 // player index the line is drawn for
 ): MoveResult {
   const newX = player.x + getDX(direction);
   const newY = player.y + getDY(direction);
@@ -73,17 +90,19 @@ export function movePlayer(
       player.y = newY;
       return { moved: true, completedShape: false, gameOver: false, died: false };
     }
-    // Try to enter DRAW mode - requires SPACE to be held
+    // Try to enter DRAW mode - requires SPACE (fast) or SHIFT (slow) to be held
     else if (grid.isEmpty(newX, newY)) {
-      if (!inputHandler.isSpacePressed()) {
-        // SPACE not held - cannot enter DRAW mode
+      const fast = input.fastDraw;
+      if (!fast && !input.slowDraw) {
+        // No draw key held - cannot enter DRAW mode
         return { moved: false, completedShape: false, gameOver: false, died: false };
       }
       player.mode = PlayerMode.DRAW;
+      player.drawSpeed = fast ? DrawSpeed.FAST : DrawSpeed.SLOW;
       player.x = newX;
       player.y = newY;
       player.linePath = [{ x: newX, y: newY }];
-      grid.setLine(newX, newY);
+      grid.setLine(newX, newY, lineCellType(player.drawSpeed), owner);
       return { moved: true, completedShape: false, gameOver: false, died: false };
     }
   } else if (player.mode === PlayerMode.DRAW) {
@@ -92,7 +111,7 @@ export function movePlayer(
       player.x = newX;
       player.y = newY;
       player.linePath.push({ x: newX, y: newY });
-      grid.setLine(newX, newY);
+      grid.setLine(newX, newY, lineCellType(player.drawSpeed), owner);
       return { moved: true, completedShape: false, gameOver: false, died: false };
     }
     // Complete shape when reaching a FILLED or BORDER cell
@@ -111,7 +130,15 @@ export function movePlayer(
   return { moved: false, completedShape: false, gameOver: false, died: false };
 }
 
-function getDX(direction: Direction): number {
+export function lineCellType(speed: DrawSpeed): CellType.LINE | CellType.SLOW_LINE {
+  return speed === DrawSpeed.SLOW ? CellType.SLOW_LINE : CellType.LINE;
+}
+
+export function fillCellType(speed: DrawSpeed): CellType.FILLED | CellType.SLOW_FILLED {
+  return speed === DrawSpeed.SLOW ? CellType.SLOW_FILLED : CellType.FILLED;
+}
+
+export function getDX(direction: Direction): number {
   switch (direction) {
     case Direction.RIGHT: return 1;
     case Direction.LEFT: return -1;
@@ -119,7 +146,7 @@ function getDX(direction: Direction): number {
   }
 }
 
-function getDY(direction: Direction): number {
+export function getDY(direction: Direction): number {
   switch (direction) {
     case Direction.DOWN: return 1;
     case Direction.UP: return -1;
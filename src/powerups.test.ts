@@ -0,0 +1,193 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Simulation, GameEvents, TICK_DURATION } from './simulation';
+import { EventBus } from './events';
+import { InputState, NO_INPUT } from './input';
+import { CellType } from './grid';
+import { PlayerMode } from './player';
+import { LevelDefinition, DEFAULT_LEVELS } from './levels';
+import { PowerUp, POWER_UP_INTERVAL, POWER_UP_LIFETIME, SHIELD_TIME, spawnPowerUp } from './powerups';
+import { createRandom } from './random';
+import { scoreCapture } from './scoring';
+
+describe('Power-ups', () => {
+  const SEED = 2;
+  const FOREVER = 1e9;
+
+  const input = (overrides: Partial<InputState>): InputState => ({ ...NO_INPUT, ...overrides });
+  const drawUp = input({ up: true, fastDraw: true });
+
+  // A simulation with items put on the board by hand, reporting its events
+  const withPowerUps = (powerUps: PowerUp[], options: { levels?: LevelDefinition[] } = {}) => {
+    const events = new EventBus<GameEvents>();
+    const collected: Array<GameEvents['powerUpCollected']> = [];
+    events.on('powerUpCollected', (event) => collected.push(event));
+    const snapshot = new Simulation({ seed: SEED, ...options }).serialize();
+    const simulation = Simulation.fromSnapshot({ ...snapshot, powerUps }, events);
+    return { simulation, events, collected };
+  };
+
+  // Draw straight up from the spawn to the top edge, splitting the board in two
+  const splitBoard = (simulation: Simulation): void => {
+    simulation.advance(400, drawUp);
+    expect(simulation.getPlayer().mode).toBe(PlayerMode.TRAVERSE);
+  };
+
+  it('should spawn items on empty cells and let them expire', () => {
+    const events = new EventBus<GameEvents>();
+    const log: string[] = [];
+    events.on('powerUpSpawned', ({ type }) => log.push(`spawned ${type}`));
+    events.on('powerUpExpired', ({ type }) => log.push(`expired ${type}`));
+    const simulation = new Simulation({ seed: SEED, events });
+    const ticks = (ms: number) => ms / TICK_DURATION;
+
+    simulation.advance(ticks(POWER_UP_INTERVAL) - 1, NO_INPUT);
+    expect(simulation.getPowerUps()).toEqual([]);
+
+    simulation.advance(1, NO_INPUT);
+    const [powerUp] = simulation.getPowerUps();
+    expect(simulation.getGrid().getCell(powerUp.x, powerUp.y)).toBe(CellType.EMPTY);
+    expect(powerUp.expiresAt).toBe(POWER_UP_INTERVAL + POWER_UP_LIFETIME);
+
+    simulation.advance(ticks(POWER_UP_LIFETIME), NO_INPUT);
+    expect(
+      simulation.getPowerUps().map(({ x, y }) => ({ x, y })),
+      'The first item should be gone',
+    ).not.toContainEqual({
+      x: powerUp.x,
+      y: powerUp.y,
+    });
+    expect(log.slice(0, 3)).toEqual([`spawned ${powerUp.type}`, expect.stringMatching(/^spawned/), `expired ${powerUp.type}`]);
+  });
+
+  it('should keep new items away from the Qix', () => {
+    const simulation = new Simulation({ seed: SEED });
+    const [qix] = simulation.getQix();
+    for (let i = 0; i < 50; i++) {
+      const powerUp = spawnPowerUp(simulation.getGrid(), createRandom(i), 0, [qix])!;
+      expect(Math.max(Math.abs(powerUp.x - qix.x), Math.abs(powerUp.y - qix.y))).toBeGreaterThanOrEqual(10);
+      expect(powerUp.type, 'A fill needs a second open region').not.toBe('fill');
+    }
+  });
+
+  it('should give an extra life for an item enclosed in a capture', () => {
+    const { simulation, collected } = withPowerUps([
+      { type: 'life', x: 10, y: 50, expiresAt: FOREVER },
+      { type: 'life', x: 90, y: 50, expiresAt: FOREVER },
+    ]);
+
+    splitBoard(simulation);
+
+    expect(collected, 'Only the item on the captured side should count').toHaveLength(1);
+    expect(collected[0]).toMatchObject({ player: 0, type: 'life' });
+    expect(simulation.getLives()).toBe(4);
+    const [left] = simulation.getPowerUps();
+    expect(simulation.getGrid().getCell(left.x, left.y), 'The item left behind should be in open space').toBe(CellType.EMPTY);
+  });
+
+  it('should speed the player up for a while', () => {
+    const both = (type: PowerUp['type']): PowerUp[] => [
+      { type, x: 10, y: 50, expiresAt: FOREVER },
+      { type, x: 90, y: 50, expiresAt: FOREVER },
+    ];
+    const distance = (simulation: Simulation): number => {
+      const start = simulation.getPlayer().x;
+      simulation.advance(60, input({ left: true }));
+      return start - simulation.getPlayer().x;
+    };
+    const boosted = withPowerUps(both('speed')).simulation;
+    const plain = withPowerUps(both('shield')).simulation;
+    splitBoard(boosted);
+    splitBoard(plain);
+
+    expect(distance(boosted)).toBeGreaterThanOrEqual(distance(plain) * 1.5);
+  });
+
+  it('should protect the line while drawing with a shield up', () => {
+    const { simulation, events } = withPowerUps([
+      { type: 'shield', x: 10, y: 50, expiresAt: FOREVER },
+      { type: 'shield', x: 90, y: 50, expiresAt: FOREVER },
+    ]);
+    const deaths: string[] = [];
+    events.on('lifeLost', ({ cause }) => deaths.push(cause));
+    splitBoard(simulation);
+
+    // Walk along the top edge over the open side, draw down a little and stand still so the fuse burns
+    const open = simulation.getGrid().isEmpty(40, 50) ? input({ left: true }) : input({ right: true });
+    simulation.advance(30, open);
+    simulation.advance(20, input({ down: true, fastDraw: true }));
+    expect(simulation.getPlayer().mode).toBe(PlayerMode.DRAW);
+    simulation.advance(SHIELD_TIME / TICK_DURATION / 2, NO_INPUT);
+    expect(deaths, 'Neither the fuse nor the Qix should harm a shielded player').toEqual([]);
+
+    simulation.advance(SHIELD_TIME / TICK_DURATION, NO_INPUT);
+    expect(deaths, 'The player should be caught once the shield is down').toHaveLength(1);
+  });
+
+  it('should let a Qix move off a shielded line rather than wait for the shield to drop', () => {
+    const { simulation, events } = withPowerUps([
+      { type: 'shield', x: 10, y: 50, expiresAt: FOREVER },
+      { type: 'shield', x: 90, y: 50, expiresAt: FOREVER },
+    ]);
+    const deaths: string[] = [];
+    events.on('lifeLost', ({ cause }) => deaths.push(cause));
+    splitBoard(simulation);
+
+    const open = simulation.getGrid().isEmpty(40, 50) ? input({ left: true }) : input({ right: true });
+    simulation.advance(30, open);
+    simulation.advance(20, input({ down: true, fastDraw: true }));
+    const player = simulation.getPlayer();
+    const [qix] = simulation.getQix();
+    Object.assign(qix, { x: player.x + 1, y: player.y - 5 });
+
+    simulation.advance(SHIELD_TIME / TICK_DURATION / 2, NO_INPUT);
+    expect(qix, 'The Qix should have moved away').not.toMatchObject({ x: player.x + 1, y: player.y - 5 });
+
+    simulation.advance(SHIELD_TIME / TICK_DURATION, NO_INPUT);
+    expect(deaths, 'Only the fuse waiting at the player should be left to catch them').toEqual(['fuse']);
+  });
+
+  it('should fill the smallest open region at once', () => {
+    // A wall splits off a strip down the left-hand side, away from the Qix
+    const level: LevelDefinition = { ...DEFAULT_LEVELS[0], blocks: [{ x: 20, y: 1, width: 1, height: 98, type: 'wall' }] };
+    const { simulation, collected } = withPowerUps(
+      [
+        { type: 'fill', x: 30, y: 50, expiresAt: FOREVER },
+        { type: 'fill', x: 70, y: 50, expiresAt: FOREVER },
+      ],
+      { levels: [level] },
+    );
+    expect(simulation.getGrid().getOpenRegions()).toHaveLength(2);
+    const coverage = simulation.getCoverage();
+
+    splitBoard(simulation);
+
+    expect(collected.map(({ type }) => type)).toEqual(['fill']);
+    expect(simulation.getGrid().getCell(10, 50), 'The strip behind the wall should be filled').toBe(CellType.FILLED);
+    expect(simulation.getGrid().getCell(70, 50)).toBe(CellType.EMPTY);
+    expect(simulation.getCoverage() - coverage).toBeGreaterThan((19 * 98) / 100);
+  });
+
+  it('should fill at the normal rate even when collected by a slow line', () => {
+    const level: LevelDefinition = { ...DEFAULT_LEVELS[0], blocks: [{ x: 20, y: 1, width: 1, height: 98, type: 'wall' }] };
+    const { simulation, events } = withPowerUps(
+      [
+        { type: 'fill', x: 30, y: 50, expiresAt: FOREVER },
+        { type: 'fill', x: 70, y: 50, expiresAt: FOREVER },
+      ],
+      { levels: [level] },
+    );
+    const captures: Array<GameEvents['shapeCaptured']> = [];
+    events.on('shapeCaptured', (event) => captures.push(event));
+
+    simulation.advance(800, input({ up: true, slowDraw: true }));
+
+    expect(captures, 'The slow line and then the fill should capture').toHaveLength(2);
+    expect(simulation.getGrid().getCell(30, 50), 'The slow line should capture SLOW_FILLED').toBe(CellType.SLOW_FILLED);
+    expect(simulation.getGrid().getCell(10, 50), 'The fill should not count as slow').toBe(CellType.FILLED);
+    const fill = captures[1];
+    expect(fill.points).toBe(
+      scoreCapture({ cellsFilled: fill.cells, lineCells: 0, regions: 1, collected: [] }, level.width * level.height),
+    );
+  });
+});
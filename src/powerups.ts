@@ -0,0 +1,45 @@
+import { Grid, Point } from './grid';
+import { Random, randomInt } from './random';
+
+// - 'life': one more life
+// - 'speed': move faster for a while
+// - 'shield': nothing can harm the player while drawing for a while
+// - 'fill': the smallest open region is filled at once
+export type PowerUpType = 'life' | 'speed' | 'shield' | 'fill';
+export const POWER_UP_TYPES: ReadonlyArray<PowerUpType> = ['life', 'speed', 'shield', 'fill'];
+
+// An item waiting on an EMPTY cell until a capture encloses it or it expires
+export interface PowerUp {
+  type: PowerUpType;
+  x: number;
+  y: number;
+  expiresAt: number; // ms of game time
+}
+
+export const POWER_UP_INTERVAL = 10000; // ms between spawns
+export const POWER_UP_LIFETIME = 15000; // ms an item waits to be collected
+export const MAX_POWER_UPS = 2; // on the board at once
+export const SPEED_BOOST_TIME = 8000; // ms
+export const SPEED_BOOST_FACTOR = 0.6; // move interval multiplier while boosted
+export const SHIELD_TIME = 6000; // ms
+const MIN_ENEMY_DISTANCE = 10; // cells between a new item and any Qix
+
+// Place a random item on an EMPTY cell away from the Qix, or return null when there is no room.
+// A fill is only offered while there is a region without a Qix to fill, as it could not do anything otherwise.
+export function spawnPowerUp(grid: Grid, random: Random, time: number, enemies: ReadonlyArray<Point> = []): PowerUp | null {
+  const farFromEnemies = (cell: Point) =>
+    enemies.every((enemy) => Math.max(Math.abs(enemy.x - cell.x), Math.abs(enemy.y - cell.y)) >= MIN_ENEMY_DISTANCE);
+  const cells = grid.getEmptyCells().filter(farFromEnemies);
+  if (cells.length === 0) {
+    return null;
+  }
+
+  const types = grid.getFillableRegions(enemies).length > 0 ? POWER_UP_TYPES : POWER_UP_TYPES.filter((type) => type !== 'fill');
+  const type = types[randomInt(random, types.length)];
+  const cell = cells[randomInt(random, cells.length)];
+  return { type, x: cell.x, y: cell.y, expiresAt: time + POWER_UP_LIFETIME };
+}
+
+export function isExpired(powerUp: PowerUp, time: number): boolean {
+  return time >= powerUp.expiresAt;
+}
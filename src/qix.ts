@@ -0,0 +1,136 @@
+import { Grid, Point } from './grid';
+import { Random, randomInt } from './random';
+
+export interface Qix {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  trail: Point[];
+}
+
+const QIX_TRAIL_LENGTH = 8;
+const DIRECTION_CHANGE_CHANCE = 0.1;
+
+const QIX_DIRECTIONS: ReadonlyArray<Point> = [
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+  { x: -1, y: 1 },
+  { x: -1, y: 0 },
+  { x: -1, y: -1 },
+  { x: 0, y: -1 },
+  { x: 1, y: -1 },
+];
+
+export function createQix(grid: Grid, random: Random): Qix {
+  const start = pickEmptyCell(grid, random) ?? { x: Math.floor(grid.getWidth() / 2), y: Math.floor(grid.getHeight() / 2) };
+  const direction = QIX_DIRECTIONS[randomInt(random, QIX_DIRECTIONS.length)];
+
+  return {
+    x: start.x,
+    y: start.y,
+    dx: direction.x,
+    dy: direction.y,
+    trail: [],
+  };
+}
+
+// Move the Qix one step through EMPTY space, bouncing off anything else
+export function moveQix(qix: Qix, grid: Grid, random: Random): void {
+  // A capture may have filled the cell the Qix was in; move it back into open space
+  if (!grid.isEmpty(qix.x, qix.y)) {
+    const cell = pickEmptyCell(grid, random);
+    if (!cell) {
+      return;
+    }
+    qix.x = cell.x;
+    qix.y = cell.y;
+    qix.trail = [];
+  }
+
+  // Occasionally wander off in a new direction
+  if (random() < DIRECTION_CHANGE_CHANCE) {
+    const direction = QIX_DIRECTIONS[randomInt(random, QIX_DIRECTIONS.length)];
+    qix.dx = direction.x;
+    qix.dy = direction.y;
+  }
+
+  if (!canStep(grid, qix.x, qix.y, qix.dx, qix.dy)) {
+    bounce(qix, grid, random);
+  }
+
+  if (!canStep(grid, qix.x, qix.y, qix.dx, qix.dy)) {
+    return;
+  }
+
+  qix.trail.push({ x: qix.x, y: qix.y });
+  if (qix.trail.length > QIX_TRAIL_LENGTH) {
+    qix.trail.shift();
+  }
+
+  qix.x += qix.dx;
+  qix.y += qix.dy;
+}
+
+// The Qix touches the line when it is on or next to any cell of the line being drawn
+export function qixTouchesLine(qix: Qix, grid: Grid, linePath: Point[]): boolean {
+  if (linePath.length === 0) {
+    return false;
+  }
+
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (grid.isOnLine(qix.x + dx, qix.y + dy, linePath)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function bounce(qix: Qix, grid: Grid, random: Random): void {
+  // Reflect off whichever axis is blocked
+  if (qix.dx !== 0 && !grid.isEmpty(qix.x + qix.dx, qix.y)) {
+    qix.dx = -qix.dx;
+  }
+  if (qix.dy !== 0 && !grid.isEmpty(qix.x, qix.y + qix.dy)) {
+    qix.dy = -qix.dy;
+  }
+  if (canStep(grid, qix.x, qix.y, qix.dx, qix.dy)) {
+    return;
+  }
+
+  // Cornered: pick any open direction, starting from a random one
+  const offset = randomInt(random, QIX_DIRECTIONS.length);
+  for (let i = 0; i < QIX_DIRECTIONS.length; i++) {
+    const direction = QIX_DIRECTIONS[(offset + i) % QIX_DIRECTIONS.length];
+    if (canStep(grid, qix.x, qix.y, direction.x, direction.y)) {
+      qix.dx = direction.x;
+      qix.dy = direction.y;
+      return;
+    }
+  }
+}
+
+// Diagonal steps also need both orthogonal cells open so the Qix cannot slip through corners
+function canStep(grid: Grid, x: number, y: number, dx: number, dy: number): boolean {
+  if (dx === 0 && dy === 0) {
+    return false;
+  }
+  if (!grid.isEmpty(x + dx, y + dy)) {
+    return false;
+  }
+  if (dx !== 0 && dy !== 0) {
+    return grid.isEmpty(x + dx, y) && grid.isEmpty(x, y + dy);
+  }
+  return true;
+}
+
+function pickEmptyCell(grid: Grid, random: Random): Point | null {
+  const cells = grid.getEmptyCells();
+  if (cells.length === 0) {
+    return null;
+  }
+  return cells[randomInt(random, cells.length)];
+}
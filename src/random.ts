@@ -0,0 +1,25 @@
+// Seedable pseudo-random number generator so enemy movement is reproducible
+export type Random = () => number;
+
+// A Random whose internal state can be saved; createRandom(getState()) continues the same sequence
+export interface SeededRandom extends Random {
+  getState(): number;
+}
+
+// Mulberry32: small, fast and good enough for gameplay randomness
+export function createRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Object.assign(random, { getState: () => state });
+}
+
+// Random integer in [0, max)
+export function randomInt(random: Random, max: number): number {
+  return Math.floor(random() * max);
+}
@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Simulation } from './simulation';
+import { InputState, NO_INPUT } from './input';
+import {
+  InputRecorder,
+  ReplayInput,
+  decodeInput,
+  encodeInput,
+  decodeInputs,
+  encodeInputs,
+  exportRecording,
+  importRecording,
+} from './recording';
+
+describe('Input recording and replay', () => {
+  const SEED = 2;
+
+  const input = (overrides: Partial<InputState>): InputState => ({ ...NO_INPUT, ...overrides });
+
+  const script = (tick: number): InputState => {
+    if (tick < 400) return input({ up: true, fastDraw: true });
+    if (tick < 700) return input({ left: true });
+    if (tick < 900) return input({ up: true, slowDraw: true });
+    return input({ right: (tick >> 5) % 2 === 0, down: (tick >> 5) % 2 === 1 });
+  };
+
+  it('should round-trip every input combination through the bitmask', () => {
+    for (let mask = 0; mask < 64; mask++) {
+      expect(encodeInput(decodeInput(mask))).toBe(mask);
+    }
+  });
+
+  it('should store held keys as compact runs', () => {
+    const recorder = new InputRecorder(SEED);
+    for (let tick = 1; tick <= 1000; tick++) {
+      recorder.record(tick <= 600 ? input({ up: true, fastDraw: true }) : NO_INPUT);
+    }
+
+    const recording = recorder.toRecording();
+    expect(recording.inputs, 'Two runs should cover 1000 ticks').toEqual([
+      [encodeInput(input({ up: true, fastDraw: true })), 600],
+      [0, 400],
+    ]);
+    expect(recorder.getTickCount()).toBe(1000);
+  });
+
+  it('should reproduce a game exactly from an exported recording', () => {
+    const original = new Simulation({ seed: SEED, targetCoverage: 60 });
+    const recorder = new InputRecorder(SEED, { targetCoverage: 60 });
+    for (let tick = 1; tick <= 3000; tick++) {
+      const tickInput = script(tick);
+      recorder.record(tickInput);
+      original.step(tickInput);
+    }
+
+    const recording = importRecording(exportRecording(recorder.toRecording()));
+    const replay = new ReplayInput(recording);
+    const replayed = new Simulation({ seed: recording.seed, targetCoverage: recording.targetCoverage });
+    const state = replayed.advance(3000, () => replay.next());
+
+    expect(replay.isFinished(), 'Whole recording should be consumed').toBe(true);
+    expect(state.player).toEqual(original.getPlayer());
+    expect(state.qix).toEqual(original.getQix());
+    expect(state.sparx).toEqual(original.getSparx());
+    expect(state.lives).toBe(original.getLives());
+    expect(state.score).toBe(original.getScore());
+    expect(state.coverage).toBe(original.getCoverage());
+  });
+
+  it('should record both players of a two-player game in one mask', () => {
+    const both = [input({ up: true, fastDraw: true }), input({ left: true, slowDraw: true })];
+    expect(decodeInputs(encodeInputs(both), 2)).toEqual(both);
+    expect(encodeInputs([both[0]]), 'One player encodes as before').toBe(encodeInput(both[0]));
+
+    const original = new Simulation({ seed: SEED, mode: 'coop' });
+    const recorder = new InputRecorder(SEED, { mode: 'coop' });
+    for (let tick = 1; tick <= 1500; tick++) {
+      const tickInput = [script(tick), script(tick + 300)];
+      recorder.record(tickInput);
+      original.step(tickInput);
+    }
+
+    const recording = importRecording(exportRecording(recorder.toRecording()));
+    const replay = new ReplayInput(recording);
+    const state = new Simulation({ seed: recording.seed, mode: recording.mode }).advance(1500, () => replay.next());
+
+    expect(state.players).toEqual(original.getPlayers());
+    expect(state.grid.toOwnerRunLength()).toEqual(original.getGrid().toOwnerRunLength());
+  });
+
+  it('should reject malformed recordings with a clear error', () => {
+    expect(() => importRecording('not json')).toThrow('not valid JSON');
+    expect(() => importRecording('{"version":99,"seed":1,"inputs":[]}')).toThrow('Unsupported recording version: 99');
+    expect(() => importRecording('{"version":5,"inputs":[]}')).toThrow('seed must be a number');
+    expect(() => importRecording('{"version":5,"seed":1,"inputs":[[1]]}')).toThrow('[mask, count] pairs');
+    expect(() => importRecording('{"version":5,"seed":1,"mode":"trio","inputs":[]}')).toThrow('mode is invalid: trio');
+    expect(() => importRecording('{"version":5,"seed":1,"difficulty":"insane","inputs":[]}')).toThrow('difficulty is invalid: insane');
+  });
+});
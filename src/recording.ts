@@ -0,0 +1,171 @@
+import { InputState, NO_INPUT } from './input';
+import { SimulationSnapshot, validateSnapshot } from './snapshot';
+import { LevelDefinition, parseLevels } from './levels';
+import { PlayMode, PLAY_MODES, getPlayerCount } from './player';
+import { Difficulty, DIFFICULTIES } from './difficulty';
+
+export const RECORDING_VERSION = 5;
+
+// Everything needed to reproduce a game: the starting seed and options plus the input for every tick
+export interface Recording {
+  version: number;
+  seed: number;
+  targetCoverage?: number;
+  levels?: LevelDefinition[]; // custom level list, when not playing the built-in levels
+  snapshot?: SimulationSnapshot; // starting state for games resumed from a save
+  mode?: PlayMode; // defaults to a single player
+  difficulty?: Difficulty; // defaults to normal
+  // Run-length encoded input bitmasks: [mask, number of consecutive ticks].
+  // With two players, player 2's bits sit above player 1's.
+  inputs: Array<[number, number]>;
+}
+
+const INPUT_BITS: ReadonlyArray<keyof InputState> = ['up', 'down', 'left', 'right', 'fastDraw', 'slowDraw'];
+const PLAYER_SHIFT = INPUT_BITS.length;
+
+export function encodeInput(input: InputState): number {
+  let mask = 0;
+  INPUT_BITS.forEach((key, bit) => {
+    if (input[key]) {
+      mask |= 1 << bit;
+    }
+  });
+  return mask;
+}
+
+export function decodeInput(mask: number): InputState {
+  const input = { ...NO_INPUT };
+  INPUT_BITS.forEach((key, bit) => {
+    input[key] = (mask & (1 << bit)) !== 0;
+  });
+  return input;
+}
+
+// Every player's input in one mask, player 1 in the lowest bits
+export function encodeInputs(inputs: ReadonlyArray<InputState>): number {
+  return inputs.reduce((mask, input, player) => mask | (encodeInput(input) << (player * PLAYER_SHIFT)), 0);
+}
+
+export function decodeInputs(mask: number, players: number): InputState[] {
+  const playerBits = (1 << PLAYER_SHIFT) - 1;
+  return Array.from({ length: players }, (_, player) => decodeInput((mask >> (player * PLAYER_SHIFT)) & playerBits));
+}
+
+// Collects the input of each simulation tick as it is played
+export class InputRecorder {
+  private inputs: Array<[number, number]> = [];
+  private seed: number;
+  private options: Pick<Recording, 'targetCoverage' | 'levels' | 'snapshot' | 'mode' | 'difficulty'>;
+
+  constructor(seed: number, options: Pick<Recording, 'targetCoverage' | 'levels' | 'snapshot' | 'mode' | 'difficulty'> = {}) {
+    this.seed = seed;
+    this.options = options;
+  }
+
+  // One player's input, or every player's in player order
+  record(input: InputState | ReadonlyArray<InputState>): void {
+    const mask = Array.isArray(input) ? encodeInputs(input) : encodeInput(input as InputState);
+    const last = this.inputs[this.inputs.length - 1];
+    if (last && last[0] === mask) {
+      last[1]++;
+    } else {
+      this.inputs.push([mask, 1]);
+    }
+  }
+
+  getTickCount(): number {
+    return this.inputs.reduce((total, [, count]) => total + count, 0);
+  }
+
+  toRecording(): Recording {
+    return {
+      version: RECORDING_VERSION,
+      seed: this.seed,
+      ...this.options,
+      inputs: this.inputs.map(([mask, count]) => [mask, count]),
+    };
+  }
+}
+
+// Feeds a recording back one tick at a time, one input per player; ticks past the end get no input
+export class ReplayInput {
+  private recording: Recording;
+  private players: number;
+  private run: number = 0;
+  private usedInRun: number = 0;
+
+  constructor(recording: Recording) {
+    this.recording = recording;
+    this.players = getPlayerCount(recording.mode ?? 'single');
+  }
+
+  next(): InputState[] {
+    const inputs = this.recording.inputs;
+    while (this.run < inputs.length && this.usedInRun >= inputs[this.run][1]) {
+      this.run++;
+      this.usedInRun = 0;
+    }
+    if (this.run >= inputs.length) {
+      return Array.from({ length: this.players }, () => ({ ...NO_INPUT }));
+    }
+
+    this.usedInRun++;
+    return decodeInputs(inputs[this.run][0], this.players);
+  }
+
+  isFinished(): boolean {
+    const inputs = this.recording.inputs;
+    return this.run >= inputs.length || (this.run === inputs.length - 1 && this.usedInRun >= inputs[this.run][1]);
+  }
+}
+
+export function exportRecording(recording: Recording): string {
+  return JSON.stringify(recording);
+}
+
+export function importRecording(json: string): Recording {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Recording must be an object');
+  }
+
+  const recording = data as Partial<Recording>;
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${String(recording.version)}`);
+  }
+  if (typeof recording.seed !== 'number') {
+    throw new Error('Recording seed must be a number');
+  }
+  if (recording.targetCoverage !== undefined && typeof recording.targetCoverage !== 'number') {
+    throw new Error('Recording targetCoverage must be a number');
+  }
+  if (recording.mode !== undefined && !PLAY_MODES.includes(recording.mode)) {
+    throw new Error(`Recording mode is invalid: ${String(recording.mode)}`);
+  }
+  if (recording.difficulty !== undefined && !DIFFICULTIES.includes(recording.difficulty)) {
+    throw new Error(`Recording difficulty is invalid: ${String(recording.difficulty)}`);
+  }
+  if (recording.levels !== undefined) {
+    try {
+      parseLevels(recording.levels);
+    } catch (error) {
+      throw new Error(`Recording ${(error as Error).message}`);
+    }
+  }
+  if (recording.snapshot !== undefined) {
+    validateSnapshot(recording.snapshot);
+  }
+  const validRun = (run: unknown): boolean =>
+    Array.isArray(run) && run.length === 2 && Number.isInteger(run[0]) && Number.isInteger(run[1]) && run[1] > 0;
+  if (!Array.isArray(recording.inputs) || !recording.inputs.every(validRun)) {
+    throw new Error('Recording inputs must be [mask, count] pairs');
+  }
+
+  return recording as Recording;
+}
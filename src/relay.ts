@@ -0,0 +1,127 @@
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { AddressInfo } from 'net';
+import { NetMessage, OnlineMode, NETPLAY_VERSION, DEFAULT_RELAY_PORT, encodeNetMessage, parseNetMessage } from './netplay';
+
+export interface RelayOptions {
+  port?: number; // 0 picks a free port; defaults to DEFAULT_RELAY_PORT
+  host?: string; // defaults to every interface
+  seed?: () => number; // seed for each match; defaults to the clock
+}
+
+// Node WebSocket server that pairs clients asking for the same mode and passes each one's input and
+// board hashes on to the other. It runs no game itself: lockstep keeps both clients' simulations identical.
+export class Relay {
+  private options: RelayOptions;
+  private server: WebSocketServer | null = null;
+  private waiting: Map<OnlineMode, WebSocket> = new Map(); // one client per mode waiting for a partner
+  private partners: Map<WebSocket, WebSocket> = new Map();
+
+  constructor(options: RelayOptions = {}) {
+    this.options = options;
+  }
+
+  // Start accepting clients; resolves with the port once listening
+  listen(): Promise<number> {
+    if (this.server) {
+      throw new Error('Relay is already listening');
+    }
+    const server = new WebSocketServer({ port: this.options.port ?? DEFAULT_RELAY_PORT, host: this.options.host });
+    this.server = server;
+    server.on('connection', (socket) => {
+      socket.on('message', (data) => this.receive(socket, data));
+      socket.on('close', () => this.remove(socket));
+    });
+    return new Promise((resolve, reject) => {
+      server.once('listening', () => resolve((server.address() as AddressInfo).port));
+      server.once('error', reject);
+    });
+  }
+
+  // Drop every client and stop listening
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+    server.clients.forEach((socket) => socket.terminate());
+    this.waiting.clear();
+    this.partners.clear();
+    return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  private receive(socket: WebSocket, data: RawData): void {
+    let message: NetMessage;
+    try {
+      message = parseNetMessage(data.toString());
+    } catch (error) {
+      this.send(socket, { type: 'error', message: (error as Error).message });
+      return;
+    }
+
+    switch (message.type) {
+      case 'join':
+        this.join(socket, message.version, message.mode);
+        break;
+      case 'input':
+      case 'hash': {
+        const partner = this.partners.get(socket);
+        if (partner) {
+          this.send(partner, message);
+        } else {
+          this.send(socket, { type: 'error', message: `No game to send ${message.type} to` });
+        }
+        break;
+      }
+      default:
+        this.send(socket, { type: 'error', message: `Clients cannot send ${message.type}` });
+    }
+  }
+
+  // The first client to ask for a mode waits; the second starts the match as player 2
+  private join(socket: WebSocket, version: number, mode: OnlineMode): void {
+    if (version !== NETPLAY_VERSION) {
+      this.send(socket, { type: 'error', message: `Unsupported netplay version: ${version} (expected ${NETPLAY_VERSION})` });
+      socket.close();
+      return;
+    }
+    if (this.partners.has(socket) || [...this.waiting.values()].includes(socket)) {
+      this.send(socket, { type: 'error', message: 'Already joined' });
+      return;
+    }
+
+    const partner = this.waiting.get(mode);
+    if (!partner) {
+      this.waiting.set(mode, socket);
+      return;
+    }
+    this.waiting.delete(mode);
+    this.partners.set(partner, socket);
+    this.partners.set(socket, partner);
+    const seed = (this.options.seed ?? Date.now)() >>> 0;
+    this.send(partner, { type: 'start', player: 0, seed, mode });
+    this.send(socket, { type: 'start', player: 1, seed, mode });
+  }
+
+  // A game cannot go on without both players, so the partner is told and disconnected too
+  private remove(socket: WebSocket): void {
+    for (const [mode, waiting] of this.waiting) {
+      if (waiting === socket) {
+        this.waiting.delete(mode);
+      }
+    }
+    const partner = this.partners.get(socket);
+    if (partner) {
+      this.partners.delete(socket);
+      this.partners.delete(partner);
+      this.send(partner, { type: 'left' });
+      partner.close();
+    }
+  }
+
+  private send(socket: WebSocket, message: NetMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(encodeNetMessage(message));
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Renderer, LayerFactory } from './renderer';
+import { Grid, CellType } from './grid';
+import { createPlayer } from './player';
+
+// node-canvas needs a native build; the frame-time test only runs where it is installed
+const nodeCanvas = await import('canvas').catch(() => null);
+
+describe('Renderer', () => {
+  let canvas: HTMLCanvasElement;
+  let ctx: CanvasRenderingContext2D;
+
+  beforeEach(() => {
+    canvas = document.createElement('canvas');
+    ctx = canvas.getContext('2d')!;
+    vi.mocked(ctx.fillRect).mockClear();
+  });
+
+  const fillRectCalls = (): number => vi.mocked(ctx.fillRect).mock.calls.length;
+
+  it('should draw the whole board once and then only the cells that changed', () => {
+    const grid = new Grid(100, 100);
+    const renderer = new Renderer(canvas, grid);
+
+    renderer.renderBoard(grid);
+    expect(fillRectCalls(), 'First frame should draw the background and every border cell').toBe(1 + 396);
+
+    vi.mocked(ctx.fillRect).mockClear();
+    renderer.renderBoard(grid);
+    expect(fillRectCalls(), 'An unchanged board should only be copied').toBe(0);
+    expect(ctx.drawImage).toHaveBeenCalled();
+
+    grid.setLine(50, 98);
+    grid.setLine(50, 97);
+    renderer.renderBoard(grid);
+    expect(fillRectCalls(), 'Two changed cells: clear and paint each').toBe(4);
+  });
+
+  it('should redraw everything for a new grid', () => {
+    const first = new Grid(50, 50);
+    const renderer = new Renderer(canvas, first);
+    renderer.renderBoard(first);
+
+    vi.mocked(ctx.fillRect).mockClear();
+    const second = Grid.fromRunLength(50, 50, first.toRunLength());
+    renderer.renderBoard(second);
+
+    expect(fillRectCalls()).toBe(1 + 196);
+  });
+
+  it.skipIf(!nodeCanvas)('should keep frame time flat as the grid grows', () => {
+    const { createCanvas } = nodeCanvas!;
+    const createLayer: LayerFactory = (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement;
+
+    const frameTime = (size: number): number => {
+      const grid = new Grid(size, size);
+      const target = createCanvas(800, 800) as unknown as HTMLCanvasElement;
+      const renderer = new Renderer(target, grid, { createLayer });
+      const player = createPlayer(grid);
+      renderer.render(grid, [player], [], [], []);
+
+      const started = performance.now();
+      for (let frame = 0; frame < 50; frame++) {
+        grid.setLine(frame + 1, Math.floor(size / 2));
+        renderer.render(grid, [player], [], [], []);
+      }
+      return (performance.now() - started) / 50;
+    };
+
+    frameTime(100); // warm up
+    const small = frameTime(100);
+    const large = frameTime(1000);
+
+    expect(large, `100x100: ${small.toFixed(2)}ms per frame, 1000x1000: ${large.toFixed(2)}ms`).toBeLessThan(small * 3 + 1);
+  });
+
+  it('should paint cells in their own colours', () => {
+    const grid = new Grid(20, 20);
+    const renderer = new Renderer(canvas, grid);
+    renderer.renderBoard(grid);
+
+    const colours: string[] = [];
+    vi.mocked(ctx.fillRect).mockImplementation(() => colours.push(ctx.fillStyle as string));
+    grid.setCell(5, 5, CellType.SLOW_FILLED);
+    renderer.renderBoard(grid);
+    vi.mocked(ctx.fillRect).mockReset();
+
+    expect(colours).toEqual(['#1a1a2e', '#2d1e4f']);
+  });
+
+  describe('animations', () => {
+    const FILLED_COLOR = '#16213e';
+    let time: number;
+    let renderer: Renderer;
+
+    // A 20x20 board split by a line at x=10, with everything left of it newly captured
+    const capture = (grid: Grid): void => {
+      for (let y = 1; y < 19; y++) {
+        grid.setLine(10, y);
+      }
+      renderer.renderBoard(grid);
+      for (let y = 1; y < 19; y++) {
+        for (let x = 1; x < 10; x++) grid.setCell(x, y, CellType.FILLED);
+      }
+    };
+
+    // Filled cells painted during a call
+    const paintsWhile = (draw: () => void): number => {
+      let count = 0;
+      vi.mocked(ctx.fillRect).mockImplementation(() => {
+        if (ctx.fillStyle === FILLED_COLOR) count++;
+      });
+      draw();
+      vi.mocked(ctx.fillRect).mockReset();
+      return count;
+    };
+
+    beforeEach(() => {
+      time = 0;
+    });
+
+    it('should reveal a capture outward from the line over a few hundred ms', () => {
+      const grid = new Grid(20, 20);
+      renderer = new Renderer(canvas, grid, { now: () => time, reducedMotion: false });
+      capture(grid);
+
+      expect(
+        paintsWhile(() => renderer.renderBoard(grid)),
+        'Only the cells along the line come first',
+      ).toBe(18);
+      time = 150;
+      expect(
+        paintsWhile(() => renderer.renderBoard(grid)),
+        'Half way, four more columns',
+      ).toBe(4 * 18);
+      time = 300;
+      expect(
+        paintsWhile(() => renderer.renderBoard(grid)),
+        'Rest of the capture at the end',
+      ).toBe(4 * 18);
+    });
+
+    it('should skip animations, and not start them with reduced motion', () => {
+      const grid = new Grid(20, 20);
+      renderer = new Renderer(canvas, grid, { now: () => time, reducedMotion: false });
+      capture(grid);
+      renderer.renderBoard(grid);
+
+      expect(
+        paintsWhile(() => renderer.skipAnimations()),
+        'Skipping paints what is left',
+      ).toBe(8 * 18);
+
+      const still = new Grid(20, 20);
+      renderer = new Renderer(canvas, still, { now: () => time, reducedMotion: true });
+      capture(still);
+      expect(
+        paintsWhile(() => renderer.renderBoard(still)),
+        'Whole capture at once',
+      ).toBe(9 * 18);
+
+      renderer.playEffect({ type: 'burst', x: 5, y: 5 });
+      vi.mocked(ctx.fillRect).mockClear();
+      renderer.render(still, [createPlayer(still)], [], [], []);
+      expect(vi.mocked(ctx.fillRect), 'No particles with reduced motion').not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,77 +1,482 @@
-import { Grid } from './grid';
+import { Grid, CellType, Point } from './grid';
 import { Player } from './player';
+import { Qix } from './qix';
+import { Sparx } from './sparx';
+import { HighScoreEntry, formatHighScore } from './highscores';
+import { CaptureReveal, Burst, createBurst, isFillCell, prefersReducedMotion, BURST_TIME, WIPE_TIME } from './animations';
+import { Difficulty, LevelParameters, describeLevelParameters, formatTime } from './difficulty';
+import { PowerUp, PowerUpType } from './powerups';
 
-export class Renderer {
+// Message drawn over the board
+export type Overlay =
+  | { type: 'title' }
+  | { type: 'paused' }
+  | { type: 'levelComplete'; level: number; coverage: number }
+  | { type: 'initials'; score: number; initials: string; cursor: number }
+  // winner is only set for a versus match, and null there for a tie
+  | { type: 'gameOver'; score: number; highScores: ReadonlyArray<HighScoreEntry>; winner?: number | null };
+
+// Everything Game draws through, so the canvas can be swapped for another output such as text.
+// Players come in order with null for one who is out; lives and owned coverage have one entry per player,
+// and owned coverage is only given in versus.
+export interface GameRenderer {
+  render(
+    grid: Grid,
+    players: ReadonlyArray<Player | null>,
+    qix: Qix[],
+    sparx: Sparx[],
+    fuses: ReadonlyArray<Point>,
+    powerUps?: ReadonlyArray<PowerUp>
+  ): void;
+  updateUI(coverage: number, level: number, lives: ReadonlyArray<number>, score: number, owned?: ReadonlyArray<number>): void;
+  showOverlay(overlay: Overlay | null): void; // stays up until replaced or cleared with null
+  // The level's target and difficulty settings, and the ms left when it has a time limit
+  updateDifficulty?(difficulty: Difficulty, parameters: LevelParameters, timeLeft: number | null): void;
+  playEffect?(effect: Effect): void; // renderers without animation leave these out
+  skipAnimations?(): void;
+}
+
+// One-off animation started by something that happened in the game
+export type Effect = { type: 'burst'; x: number; y: number };
+
+export interface RendererOptions {
+  createLayer?: LayerFactory;
+  now?: () => number; // ms clock for animations; defaults to performance.now
+  reducedMotion?: boolean; // show changes at once; defaults to the system setting
+}
+
+// Creates the offscreen canvas the static board is cached in
+export type LayerFactory = (width: number, height: number) => HTMLCanvasElement;
+
+const BACKGROUND_COLOR = '#1a1a2e';
+const BORDER_COLOR = '#0f3460';
+const POWER_UP_COLORS: Record<PowerUpType, string> = { life: '#ff4d6d', speed: '#ffd60a', shield: '#4cc9f0', fill: '#b388ff' };
+
+// Each player's piece and the lines and captures they own; level cells use player 1's fill
+const PLAYER_COLORS = [
+  { piece: '#00ff88', line: '#e94560', slowLine: '#4cc9f0', filled: '#16213e', slowFilled: '#2d1e4f' },
+  { piece: '#ff6bd6', line: '#f8961e', slowLine: '#b5e48c', filled: '#3b1d3f', slowFilled: '#1d3b30' },
+];
+
+const createLayer: LayerFactory = (width, height) => {
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  return layer;
+};
+
+// Draws in two layers: the board is cached offscreen and only changed cells are repainted, then each
+// frame copies it onto the visible canvas and draws the player, line, fuse and enemies on top.
+// Animations only change what is painted when, so the simulation never waits for them.
+export class Renderer implements GameRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private cellSize: number;
+  private createLayer: LayerFactory;
+  private boardLayer!: HTMLCanvasElement;
+  private boardCtx!: CanvasRenderingContext2D;
+  private boardGrid: Grid | null = null; // grid the board layer currently shows
+  private overlay: Overlay | null = null;
+  private cellSize: number = 0;
+  private maxSize: number;
+  private gridWidth: number = 0;
+  private gridHeight: number = 0;
+  private drawnCells: Uint8Array = new Uint8Array(0); // what the board layer shows, which lags the grid while captures are revealed
+  private now: () => number;
+  private reducedMotion: boolean;
+  private reveals: CaptureReveal[] = [];
+  private bursts: Burst[] = [];
+  private wipeStarted: number | null = null;
 
-  constructor(canvas: HTMLCanvasElement, grid: Grid) {
+  constructor(canvas: HTMLCanvasElement, grid: Grid, options: RendererOptions = {}) {
     this.canvas = canvas;
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error('Could not get canvas context');
     this.ctx = ctx;
+    this.createLayer = options.createLayer ?? createLayer;
+    this.now = options.now ?? (() => performance.now());
+    this.reducedMotion = options.reducedMotion ?? prefersReducedMotion();
+
+    this.maxSize = Math.min(800, window.innerWidth - 40);
+    this.fitToGrid(grid);
+  }
+
+  // Size the canvas so the longer side of the grid fills it; levels may change the grid dimensions
+  private fitToGrid(grid: Grid): void {
+    if (grid.getWidth() === this.gridWidth && grid.getHeight() === this.gridHeight) {
+      return;
+    }
+
+    this.gridWidth = grid.getWidth();
+    this.gridHeight = grid.getHeight();
+    this.cellSize = this.maxSize / Math.max(this.gridWidth, this.gridHeight);
+    this.canvas.width = Math.round(this.cellSize * this.gridWidth);
+    this.canvas.height = Math.round(this.cellSize * this.gridHeight);
+
+    this.boardLayer = this.createLayer(this.canvas.width, this.canvas.height);
+    const boardCtx = this.boardLayer.getContext('2d');
+    if (!boardCtx) throw new Error('Could not get board layer context');
+    this.boardCtx = boardCtx;
+    this.boardGrid = null;
+  }
+
+  render(
+    grid: Grid,
+    players: ReadonlyArray<Player | null>,
+    qix: Qix[],
+    sparx: Sparx[],
+    fuses: ReadonlyArray<Point>,
+    powerUps: ReadonlyArray<PowerUp> = []
+  ): void {
+    this.renderBoard(grid);
+    const ctx = this.ctx;
+    const cs = this.cellSize;
+
+    for (const powerUp of powerUps) {
+      this.drawPowerUp(powerUp);
+    }
+
+    for (const q of qix) {
+      // Draw Qix trail, fading towards the oldest position
+      q.trail.forEach((point, index) => {
+        ctx.fillStyle = `rgba(255, 214, 10, ${(index + 1) / (q.trail.length + 1)})`;
+        ctx.fillRect(point.x * cs, point.y * cs, cs, cs);
+      });
+
+      // Draw Qix
+      ctx.fillStyle = '#ffd60a';
+      ctx.beginPath();
+      ctx.arc(
+        (q.x + 0.5) * cs,
+        (q.y + 0.5) * cs,
+        cs * 0.9,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+
+    // Draw Sparx as small sparks on the edge network
+    ctx.fillStyle = '#ff8c42';
+    for (const s of sparx) {
+      ctx.fillRect((s.x - 0.25) * cs, (s.y + 0.25) * cs, cs * 1.5, cs * 0.5);
+      ctx.fillRect((s.x + 0.25) * cs, (s.y - 0.25) * cs, cs * 0.5, cs * 1.5);
+    }
+
+    // Draw the burning fuses on the unfinished lines
+    for (const fuse of fuses) {
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.arc((fuse.x + 0.5) * cs, (fuse.y + 0.5) * cs, cs * 0.7, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Draw players
+    players.forEach((player, index) => {
+      if (!player) return;
+      const color = PLAYER_COLORS[index].piece;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(
+        (player.x + 0.5) * cs,
+        (player.y + 0.5) * cs,
+        cs * 0.6,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
 
-    // Calculate cell size based on canvas size
-    const size = Math.min(800, window.innerWidth - 40);
-    this.canvas.width = size;
-    this.canvas.height = size;
-    this.cellSize = size / grid.getWidth();
+      // Add glow effect to player
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 10;
+      ctx.fill();
+      ctx.shadowBlur = 0;
+    });
+
+    this.drawEffects();
+
+    if (this.overlay) {
+      this.drawOverlay(this.overlay);
+    }
+  }
+
+  // Each kind has its own colour and icon, drawn a few cells across so it stands out on the empty board
+  private drawPowerUp(powerUp: PowerUp): void {
+    const ctx = this.ctx;
+    const cs = this.cellSize;
+    const x = (powerUp.x + 0.5) * cs;
+    const y = (powerUp.y + 0.5) * cs;
+    const r = cs * 2;
+    ctx.fillStyle = POWER_UP_COLORS[powerUp.type];
+    ctx.strokeStyle = POWER_UP_COLORS[powerUp.type];
+    ctx.lineWidth = cs * 0.6;
+    ctx.beginPath();
+    switch (powerUp.type) {
+      case 'life': // a plus
+        ctx.fillRect(x - r, y - r / 3, r * 2, (r * 2) / 3);
+        ctx.fillRect(x - r / 3, y - r, (r * 2) / 3, r * 2);
+        return;
+      case 'speed': // an arrow pointing right
+        ctx.moveTo(x - r, y - r);
+        ctx.lineTo(x + r, y);
+        ctx.lineTo(x - r, y + r);
+        ctx.closePath();
+        ctx.fill();
+        return;
+      case 'shield': // a ring
+        ctx.arc(x, y, r * 0.8, 0, Math.PI * 2);
+        ctx.stroke();
+        return;
+      case 'fill': // a diamond
+        ctx.moveTo(x, y - r);
+        ctx.lineTo(x + r, y);
+        ctx.lineTo(x, y + r);
+        ctx.lineTo(x - r, y);
+        ctx.closePath();
+        ctx.fill();
+        return;
+    }
+  }
+
+  // Drawn straight away as well, so it shows even when no frame follows
+  showOverlay(overlay: Overlay | null): void {
+    this.overlay = overlay;
+    if (overlay) {
+      this.drawOverlay(overlay);
+    }
+  }
+
+  playEffect(effect: Effect): void {
+    if (!this.reducedMotion) {
+      this.bursts.push(createBurst(effect.x, effect.y, this.now()));
+    }
   }
 
-  render(grid: Grid, player: Player): void {
+  // Jump every running animation to its end
+  skipAnimations(): void {
+    if (this.boardGrid) {
+      this.reveals.forEach((reveal) => this.paintCells(this.boardGrid!, reveal.finish()));
+    }
+    this.reveals = [];
+    this.bursts = [];
+    this.wipeStarted = null;
+  }
+
+  setReducedMotion(reduced: boolean): void {
+    this.reducedMotion = reduced;
+    if (reduced) {
+      this.skipAnimations();
+    }
+  }
+
+  // Particles, then the curtain still covering part of a new level
+  private drawEffects(): void {
     const ctx = this.ctx;
     const cs = this.cellSize;
+    const now = this.now();
+
+    this.bursts = this.bursts.filter((burst) => now - burst.started < BURST_TIME);
+    for (const burst of this.bursts) {
+      const age = now - burst.started;
+      ctx.fillStyle = `rgba(0, 255, 136, ${1 - age / BURST_TIME})`;
+      for (const p of burst.particles) {
+        ctx.fillRect((p.x + p.vx * age) * cs - cs / 2, (p.y + p.vy * age) * cs - cs / 2, cs, cs);
+      }
+    }
+
+    if (this.wipeStarted !== null) {
+      const progress = (now - this.wipeStarted) / WIPE_TIME;
+      if (progress >= 1) {
+        this.wipeStarted = null;
+      } else {
+        const { width, height } = this.canvas;
+        ctx.fillStyle = BACKGROUND_COLOR;
+        ctx.fillRect(width * progress, 0, width * (1 - progress), height);
+      }
+    }
+  }
+
+  private drawOverlay(overlay: Overlay): void {
+    const ctx = this.ctx;
+    const { width, height } = this.canvas;
+    const [title, subtitle, color] = overlayText(overlay);
+    const lines = overlay.type === 'gameOver' ? overlay.highScores.map((entry, i) => formatHighScore(entry, i + 1)) : [];
+    // Lift the headline to make room for the table
+    const top = height / 2 - lines.length * 12;
 
-    // Clear canvas
-    ctx.fillStyle = '#1a1a2e';
-    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, width, height);
 
-    // Draw all cells
+    ctx.fillStyle = color;
+    ctx.font = '48px Courier New';
+    ctx.textAlign = 'center';
+    ctx.fillText(title, width / 2, top);
+
+    ctx.fillStyle = '#fff';
+    ctx.font = '24px Courier New';
+    ctx.fillText(subtitle, width / 2, top + 50);
+
+    ctx.font = '18px Courier New';
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, top + 90 + i * 24));
+  }
+
+  // Bring the cached board up to date and copy it onto the canvas. Newly filled cells are
+  // held back and revealed outward from the line over the next frames.
+  renderBoard(grid: Grid): void {
+    this.fitToGrid(grid);
+
+    if (grid !== this.boardGrid) {
+      // A board was shown before, so this is a new level rather than the first frame
+      if (this.drawnCells.length > 0 && !this.reducedMotion) {
+        this.wipeStarted = this.now();
+      }
+      grid.takeDirtyCells();
+      this.reveals = [];
+      this.drawWholeBoard(grid);
+      this.boardGrid = grid;
+    } else {
+      this.updateChangedCells(grid, grid.takeDirtyCells());
+    }
+
+    for (const reveal of this.reveals) {
+      this.paintCells(grid, reveal.take(this.now()));
+    }
+    this.reveals = this.reveals.filter((reveal) => !reveal.isDone());
+
+    this.ctx.drawImage(this.boardLayer, 0, 0);
+  }
+
+  // Compare changed cells with what is on the layer; all of them when the grid could not say which changed
+  private updateChangedCells(grid: Grid, dirty: number[] | null): void {
+    const width = grid.getWidth();
+    const captured: number[] = [];
+    const update = (index: number) => {
+      const x = index % width;
+      const cell = grid.getCell(x, (index - x) / width);
+      if (cell === this.drawnCells[index]) {
+        return;
+      }
+      if (!this.reducedMotion && isFillCell(cell) && !isFillCell(this.drawnCells[index])) {
+        captured.push(index);
+      } else {
+        this.paintCells(grid, [index]);
+      }
+    };
+
+    if (dirty) {
+      dirty.forEach(update);
+    } else {
+      for (let index = 0; index < this.drawnCells.length; index++) update(index);
+    }
+    if (captured.length > 0) {
+      this.reveals.push(new CaptureReveal(grid, captured, this.now()));
+    }
+  }
+
+  private paintCells(grid: Grid, cells: number[]): void {
+    const width = grid.getWidth();
+    for (const index of cells) {
+      const x = index % width;
+      const y = (index - x) / width;
+      const cell = grid.getCell(x, y);
+      this.drawCell(x, y, cell, grid.getOwner(x, y), true);
+      this.drawnCells[index] = cell;
+    }
+  }
+
+  private drawWholeBoard(grid: Grid): void {
+    const ctx = this.boardCtx;
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, this.boardLayer.width, this.boardLayer.height);
+
+    this.drawnCells = new Uint8Array(grid.getWidth() * grid.getHeight());
     for (let y = 0; y < grid.getHeight(); y++) {
       for (let x = 0; x < grid.getWidth(); x++) {
         const cell = grid.getCell(x, y);
-
-        switch (cell) {
-          case 0: // CellType.EMPTY
-            // Nothing to draw, shows background
-            break;
-          case 1: // CellType.FILLED
-          case 2: // CellType.BORDER
-            ctx.fillStyle = cell === 2 ? '#0f3460' : '#16213e';
-            ctx.fillRect(x * cs, y * cs, cs, cs);
-            break;
-          case 3: // CellType.LINE
-            ctx.fillStyle = '#e94560';
-            ctx.fillRect(x * cs, y * cs, cs, cs);
-            break;
-        }
+        this.drawCell(x, y, cell, grid.getOwner(x, y), false);
+        this.drawnCells[y * grid.getWidth() + x] = cell;
       }
     }
+  }
+
+  // Paint one cell of the board layer in its owner's colours; changed cells are cleared first,
+  // since an EMPTY cell shows the background
+  private drawCell(x: number, y: number, cell: CellType, owner: number | null, clear: boolean): void {
+    const ctx = this.boardCtx;
+    const cs = this.cellSize;
+    const colors = PLAYER_COLORS[owner ?? 0];
+
+    if (clear) {
+      ctx.fillStyle = BACKGROUND_COLOR;
+      ctx.fillRect(x * cs, y * cs, cs, cs);
+    }
+
+    switch (cell) {
+      case 0: // CellType.EMPTY
+        // Nothing to draw, shows background
+        break;
+      case 1: // CellType.FILLED
+      case 2: // CellType.BORDER
+        ctx.fillStyle = cell === 2 ? BORDER_COLOR : colors.filled;
+        ctx.fillRect(x * cs, y * cs, cs, cs);
+        break;
+      case 3: // CellType.LINE
+        ctx.fillStyle = colors.line;
+        ctx.fillRect(x * cs, y * cs, cs, cs);
+        break;
+      case 4: // CellType.SLOW_LINE
+        ctx.fillStyle = colors.slowLine;
+        ctx.fillRect(x * cs, y * cs, cs, cs);
+        break;
+      case 5: // CellType.SLOW_FILLED
+        ctx.fillStyle = colors.slowFilled;
+        ctx.fillRect(x * cs, y * cs, cs, cs);
+        break;
+    }
+  }
+
+  // Editor overlay: faint cell grid, spawn marker and the cell under the mouse
+  renderEditorOverlay(grid: Grid, spawn: Point, cursor: Point | null): void {
+    const ctx = this.ctx;
+    const cs = this.cellSize;
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+    for (let x = 1; x < grid.getWidth(); x++) {
+      ctx.fillRect(x * cs, 0, 1, grid.getHeight() * cs);
+    }
+    for (let y = 1; y < grid.getHeight(); y++) {
+      ctx.fillRect(0, y * cs, grid.getWidth() * cs, 1);
+    }
 
-    // Draw player
     ctx.fillStyle = '#00ff88';
     ctx.beginPath();
-    ctx.arc(
-      (player.x + 0.5) * cs,
-      (player.y + 0.5) * cs,
-      cs * 0.6,
-      0,
-      Math.PI * 2
-    );
+    ctx.arc((spawn.x + 0.5) * cs, (spawn.y + 0.5) * cs, cs * 0.6, 0, Math.PI * 2);
     ctx.fill();
 
-    // Add glow effect to player
-    ctx.shadowColor = '#00ff88';
-    ctx.shadowBlur = 10;
-    ctx.fill();
-    ctx.shadowBlur = 0;
+    if (cursor) {
+      ctx.fillStyle = 'rgba(233, 69, 96, 0.5)';
+      ctx.fillRect(cursor.x * cs, cursor.y * cs, cs, cs);
+    }
   }
 
-  updateUI(coverage: number, level: number, lives: number): void {
+  // Grid cell under a mouse position, or null when outside the board
+  cellAt(clientX: number, clientY: number): Point | null {
+    const rect = this.canvas.getBoundingClientRect();
+    const scaleX = rect.width > 0 ? this.canvas.width / rect.width : 1;
+    const scaleY = rect.height > 0 ? this.canvas.height / rect.height : 1;
+    const x = Math.floor(((clientX - rect.left) * scaleX) / this.cellSize);
+    const y = Math.floor(((clientY - rect.top) * scaleY) / this.cellSize);
+    if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) {
+      return null;
+    }
+    return { x, y };
+  }
+
+  updateUI(coverage: number, level: number, lives: ReadonlyArray<number>, score: number, owned?: ReadonlyArray<number>): void {
     const percentEl = document.getElementById('percent');
+    const scoreEl = document.getElementById('score');
     const levelEl = document.getElementById('level');
     const livesEl = document.getElementById('lives');
+    const ownedEl = document.getElementById('owned');
 
     if (percentEl) {
       percentEl.textContent = `${coverage.toFixed(1)}%`;
@@ -80,7 +485,60 @@ export class Renderer {
       levelEl.textContent = level.toString();
     }
     if (livesEl) {
-      livesEl.textContent = lives.toString();
+      livesEl.textContent = lives.join(' / ');
+    }
+    if (scoreEl) {
+      scoreEl.textContent = score.toString();
+    }
+    if (ownedEl) {
+      ownedEl.textContent = owned ? owned.map((share) => `${share.toFixed(1)}%`).join(' / ') : '';
+      ownedEl.parentElement!.hidden = !owned;
     }
   }
+
+  updateDifficulty(difficulty: Difficulty, parameters: LevelParameters, timeLeft: number | null): void {
+    const targetEl = document.getElementById('target');
+    const timeEl = document.getElementById('time');
+    const parametersEl = document.getElementById('parameters');
+
+    if (targetEl) {
+      targetEl.textContent = `${Number(parameters.targetCoverage.toFixed(1))}%`;
+    }
+    if (timeEl) {
+      timeEl.textContent = timeLeft === null ? '' : formatTime(timeLeft);
+      timeEl.parentElement!.hidden = timeLeft === null;
+    }
+    if (parametersEl) {
+      parametersEl.textContent = describeLevelParameters(difficulty, parameters);
+    }
+  }
+}
+
+// Headline, second line and headline colour of an overlay
+function overlayText(overlay: Overlay): [string, string, string] {
+  switch (overlay.type) {
+    case 'title':
+      return ['QIX', 'Press Enter to start', '#00d4ff'];
+    case 'paused':
+      return ['PAUSED', 'Press P or Esc to resume', '#ffd700'];
+    case 'levelComplete':
+      return [`LEVEL ${overlay.level} COMPLETE`, `Coverage ${overlay.coverage.toFixed(1)}% - press Enter`, '#00ff88'];
+    case 'initials':
+      return [`NEW HIGH SCORE ${overlay.score}`, `Enter initials: ${markCursor(overlay.initials, overlay.cursor)}`, '#ffd700'];
+    case 'gameOver':
+      return [gameOverHeadline(overlay.winner), `Score ${overlay.score} - press Enter to play again`, '#e94560'];
+  }
+}
+
+// Initials with the letter being chosen in brackets, e.g. "A[B]"
+export function markCursor(initials: string, cursor: number): string {
+  return initials.slice(0, cursor) + `[${initials[cursor]}]` + initials.slice(cursor + 1);
+}
+
+// Who won a versus match, or plain GAME OVER for other games
+export function gameOverHeadline(winner: number | null | undefined): string {
+  if (winner === undefined) {
+    return 'GAME OVER';
+  }
+  return winner === null ? 'DRAW' : `PLAYER ${winner + 1} WINS`;
 }
@@ -0,0 +1,28 @@
+import { CaptureResult } from './grid';
+import { DrawSpeed } from './player';
+
+const POINTS_PER_CELL = 10;
+const LEVEL_COMPLETE_BONUS = 1000;
+const POINTS_PER_PERCENT_OVER_TARGET = 1000;
+const SLOW_DRAW_MULTIPLIER = 2;
+
+// Single captures claiming at least this share of the board earn a multiplier (largest share first)
+const BIG_CAPTURE_BONUSES: ReadonlyArray<{ minPercent: number; multiplier: number }> = [
+  { minPercent: 25, multiplier: 2 },
+  { minPercent: 10, multiplier: 1.5 },
+];
+
+// Slow-draw captures pay double on top of any big-capture multiplier
+export function scoreCapture(capture: CaptureResult, totalCells: number, drawSpeed: DrawSpeed = DrawSpeed.FAST): number {
+  const claimed = capture.cellsFilled + capture.lineCells;
+  const percent = (claimed / totalCells) * 100;
+  const bonus = BIG_CAPTURE_BONUSES.find((b) => percent >= b.minPercent);
+  const speedMultiplier = drawSpeed === DrawSpeed.SLOW ? SLOW_DRAW_MULTIPLIER : 1;
+  return Math.round(claimed * POINTS_PER_CELL * (bonus?.multiplier ?? 1) * speedMultiplier);
+}
+
+// Flat bonus for clearing the level plus extra for every whole percent above the target
+export function scoreLevelComplete(coverage: number, targetCoverage: number): number {
+  const overTarget = Math.max(0, Math.floor(coverage - targetCoverage));
+  return LEVEL_COMPLETE_BONUS + overTarget * POINTS_PER_PERCENT_OVER_TARGET;
+}
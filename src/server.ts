@@ -0,0 +1,17 @@
+// Run the netplay relay in Node: npm run relay, or npm run relay -- <port>
+// Players then pick co-op or versus and press Play online; the page finds the relay on its own host,
+// or at the address given as ?relay=ws://host:port.
+import { Relay } from './relay';
+import { DEFAULT_RELAY_PORT } from './netplay';
+
+async function main(): Promise<void> {
+  const port = Number(process.argv[2] ?? DEFAULT_RELAY_PORT);
+  const relay = new Relay({ port });
+  console.log(`Relay listening on port ${await relay.listen()}`);
+
+  process.on('SIGINT', () => {
+    void relay.close().then(() => process.exit(0));
+  });
+}
+
+void main();
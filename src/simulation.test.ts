@@ -0,0 +1,148 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Simulation, GameEvents } from './simulation';
+import { EventBus } from './events';
+import { InputState, NO_INPUT } from './input';
+import { PlayerMode } from './player';
+import { createRandom } from './random';
+
+describe('Simulation - headless core', () => {
+  const SEED = 2;
+
+  const input = (overrides: Partial<InputState>): InputState => ({ ...NO_INPUT, ...overrides });
+
+  // Scripted session: draw up from the spawn, then wander left and right along the edges
+  const script = (tick: number): InputState => {
+    if (tick < 1200) return input({ up: true, fastDraw: true });
+    if (tick < 2000) return input({ left: true });
+    return input({ right: (tick >> 6) % 2 === 0, up: (tick >> 6) % 2 === 1, fastDraw: (tick >> 7) % 2 === 0 });
+  };
+
+  it('should run without any DOM globals', () => {
+    expect(typeof window, 'Suite should run in plain Node').toBe('undefined');
+
+    const state = new Simulation({ seed: SEED }).advance(100, NO_INPUT);
+
+    expect(state.tick, 'All ticks should have run').toBe(100);
+    expect(state.lives, 'Nothing should happen without input').toBe(3);
+  });
+
+  it('should capture territory from per-tick input', () => {
+    const simulation = new Simulation({ seed: SEED });
+
+    const state = simulation.advance(400, input({ up: true, fastDraw: true }));
+
+    expect(state.player.mode, 'Player should be back on the edge').toBe(PlayerMode.TRAVERSE);
+    expect(state.coverage, `Coverage should be around 50%, got ${state.coverage}%`).toBeGreaterThan(40);
+    expect(state.score, 'Capture should score').toBeGreaterThan(0);
+  });
+
+  it('should produce identical games for the same seed and inputs', () => {
+    const first = new Simulation({ seed: SEED }).advance(5000, script);
+    const second = new Simulation({ seed: SEED }).advance(5000, script);
+
+    expect(second.tick).toBe(first.tick);
+    expect(second.player).toEqual(first.player);
+    expect(second.qix).toEqual(first.qix);
+    expect(second.sparx).toEqual(first.sparx);
+    expect(second.score).toBe(first.score);
+    expect(second.lives).toBe(first.lives);
+    expect(second.coverage).toBe(first.coverage);
+  });
+
+  it('should report captures, deaths and the end of the game as events', () => {
+    const events = new EventBus<GameEvents>();
+    const log: string[] = [];
+    events.on('drawStarted', ({ speed }) => log.push(`draw ${speed}`));
+    events.on('shapeCaptured', ({ cells, coverageDelta }) => log.push(`capture ${cells > 0 && coverageDelta > 20}`));
+    events.on('lifeLost', ({ cause, lives }) => log.push(`${cause} ${lives}`));
+    const unsubscribe = events.on('gameOver', ({ score }) => log.push(`over ${score > 0}`));
+
+    const simulation = new Simulation({ seed: SEED, events });
+    simulation.advance(400, input({ up: true, fastDraw: true }));
+    // Pace along the edge until the Sparx have taken every life
+    simulation.advance(3000, (tick) => input({ fastDraw: true, up: tick % 40 < 20, down: tick % 40 >= 20 }));
+
+    expect(log).toEqual(['draw fast', 'capture true', 'sparx 2', 'sparx 1', 'sparx 0', 'over true']);
+
+    unsubscribe();
+    events.emit('gameOver', { score: 0, level: 1, totalCoverage: 0, winner: null });
+    expect(log[log.length - 1], 'Unsubscribed listener should not run').toBe('over true');
+  });
+
+  it('should use an injected RNG instead of the seed', () => {
+    const seeded = new Simulation({ seed: SEED }).advance(500, NO_INPUT);
+    const injected = new Simulation({ seed: 999, random: createRandom(SEED) }).advance(500, NO_INPUT);
+
+    expect(injected.qix, 'Injected RNG should drive the Qix').toEqual(seeded.qix);
+  });
+
+  it('should play many games quickly', () => {
+    const started = performance.now();
+    let ticks = 0;
+
+    for (let seed = 0; seed < 50; seed++) {
+      ticks += new Simulation({ seed }).advance(2000, script).tick;
+    }
+
+    expect(ticks, 'Every game should have run').toBeGreaterThan(0);
+    expect(performance.now() - started, '50 games should finish within a few seconds').toBeLessThan(5000);
+  });
+});
+
+describe('Simulation - two players', () => {
+  const SEED = 2;
+
+  const input = (overrides: Partial<InputState>): InputState => ({ ...NO_INPUT, ...overrides });
+  const drawUp = input({ up: true, fastDraw: true });
+
+  const logEvents = (events: EventBus<GameEvents>): string[] => {
+    const log: string[] = [];
+    events.on('lifeLost', ({ player, cause, lives }) => log.push(`p${player + 1} ${cause} ${lives}`));
+    events.on('shapeCaptured', ({ player }) => log.push(`p${player + 1} capture`));
+    events.on('levelCompleted', ({ level }) => log.push(`level ${level}`));
+    events.on('gameOver', ({ winner }) => log.push(`over ${winner}`));
+    return log;
+  };
+
+  it('should count both players towards the target in co-op', () => {
+    const events = new EventBus<GameEvents>();
+    const log = logEvents(events);
+    const simulation = new Simulation({ seed: SEED, mode: 'coop', events });
+    expect(simulation.getPlayers().map((player) => player && { x: player.x, y: player.y })).toEqual([
+      { x: 50, y: 99 },
+      { x: 75, y: 99 },
+    ]);
+
+    simulation.advance(400, [drawUp, NO_INPUT]);
+    const firstShare = simulation.getOwnedCoverage(0);
+    expect(firstShare, 'Player 1 should take about half').toBeGreaterThan(40);
+    expect(simulation.getOwnedCoverage(1)).toBe(0);
+
+    simulation.advance(400, [NO_INPUT, drawUp]);
+    expect(log).toEqual(['p1 capture', 'p2 capture', 'level 1']);
+    expect(firstShare, 'Player 1 alone was short of the target').toBeLessThan(75);
+
+    // The game goes on after the first player is out, until the other one is out too
+    simulation.advance(6000, (tick) => [input({ up: tick % 40 < 20, down: tick % 40 >= 20 }), NO_INPUT]);
+    const outs = log.filter((entry) => entry.endsWith(' 0'));
+    expect(outs, 'Both players should be out').toHaveLength(2);
+    expect(log.indexOf(outs[1]), 'One player should play on alone').toBeGreaterThan(log.indexOf(outs[0]) + 1);
+    expect(log[log.length - 1]).toBe('over null');
+  });
+
+  it('should cost a life to cut an opponent in versus and crown the bigger owner', () => {
+    const events = new EventBus<GameEvents>();
+    const log = logEvents(events);
+    const simulation = new Simulation({ seed: SEED, mode: 'versus', events });
+
+    // Player 1 draws up the middle while player 2 draws a short way up, then turns across player 1's line
+    simulation.advance(300, (tick) => [tick < 180 ? drawUp : NO_INPUT, tick < 60 ? drawUp : input({ left: true, fastDraw: true })]);
+
+    expect(log.slice(0, 2)).toEqual(['p1 cut 2', 'p2 capture']);
+    expect(simulation.getLives(0)).toBe(2);
+    expect(simulation.getLives(1)).toBe(3);
+    expect(simulation.getOwnedCoverage(1)).toBeGreaterThan(simulation.getOwnedCoverage(0));
+    expect(simulation.getWinner()).toBe(1);
+  });
+});
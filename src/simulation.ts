@@ -0,0 +1,733 @@
+import { Grid, CellType, Point, CaptureResult } from './grid';
+import { Player, PlayerMode, DrawSpeed, PlayMode, createPlayer, movePlayer, fillCellType, getDX, getDY, getPlayerCount } from './player';
+import { InputState, NO_INPUT, getInputDirection } from './input';
+import { Qix, createQix, moveQix, qixTouchesLine } from './qix';
+import { Random, SeededRandom, createRandom } from './random';
+import { Sparx, createSparx, moveSparx, isSparxAt } from './sparx';
+import { LevelDefinition, DEFAULT_LEVELS, getLevelDefinition, createLevelGrid, getSpawnPoint, getCaptureRule } from './levels';
+import { scoreCapture, scoreLevelComplete } from './scoring';
+import { createFuse, burnFuse, getFusePosition } from './fuse';
+import { SimulationSnapshot, PlayerSlot, SNAPSHOT_VERSION } from './snapshot';
+import { EventBus } from './events';
+import { Difficulty, LevelParameters, DIFFICULTY_PROFILES, getLevelParameters } from './difficulty';
+import {
+  PowerUp,
+  PowerUpType,
+  POWER_UP_INTERVAL,
+  MAX_POWER_UPS,
+  SPEED_BOOST_TIME,
+  SPEED_BOOST_FACTOR,
+  SHIELD_TIME,
+  spawnPowerUp,
+  isExpired,
+} from './powerups';
+
+export const TICK_DURATION = 10; // ms of game time per simulation tick
+
+const FUSE_MOVE_INTERVAL = 45; // ms between fuse steps
+
+export interface SimulationOptions {
+  levels?: ReadonlyArray<LevelDefinition>; // defaults to the built-in level list
+  targetCoverage?: number; // overrides every level's target
+  seed?: number;
+  random?: Random; // takes precedence over seed
+  events?: EventBus<GameEvents>; // receives what happens during each tick
+  mode?: PlayMode; // defaults to a single player
+  difficulty?: Difficulty; // defaults to normal
+}
+
+// One player's input for a tick, or every player's in player order
+export type TickInput = InputState | ReadonlyArray<InputState>;
+
+// 'cut' is an opponent crossing the unfinished line in versus; 'time' is the level's time limit running out
+export type DeathCause = 'qix' | 'sparx' | 'line' | 'fuse' | 'cut' | 'time';
+
+// Everything other systems can react to, with the numbers they need. Player numbers are indices, 0 for player 1.
+export interface GameEvents {
+  drawStarted: { player: number; x: number; y: number; speed: DrawSpeed };
+  drawStep: { player: number; x: number; y: number; speed: DrawSpeed }; // every cell added to the line, the first one included
+  shapeCaptured: { player: number; cells: number; lineCells: number; coverageDelta: number; coverage: number; points: number };
+  lifeLost: { player: number; cause: DeathCause; lives: number; x: number; y: number }; // where the player died
+  levelCompleted: { level: number; coverage: number; bonus: number }; // the level just finished
+  powerUpSpawned: { type: PowerUpType; x: number; y: number };
+  powerUpCollected: { player: number; type: PowerUpType; x: number; y: number };
+  powerUpExpired: { type: PowerUpType; x: number; y: number };
+  gameOver: { score: number; level: number; totalCoverage: number; winner: number | null }; // winner only in versus
+}
+
+// State after a tick; grid, players and enemies are live references, not copies
+export interface SimulationState {
+  tick: number;
+  grid: Grid;
+  player: Player; // player 1
+  players: Array<Player | null>; // null for a player who is out while the other plays on
+  qix: Qix[];
+  sparx: Sparx[];
+  powerUps: PowerUp[];
+  fuse: Point | null; // player 1's
+  fuses: Point[]; // every lit fuse
+  level: number;
+  lives: number; // player 1's
+  score: number;
+  coverage: number;
+  gameOver: boolean;
+}
+
+// Headless game rules: no DOM, no wall clock, all randomness from the injected RNG.
+// Two players share the board, the enemies and the score; each has their own lives, fuse and captures.
+export class Simulation {
+  // Set up by startLevel()
+  private grid!: Grid;
+  private players: PlayerSlot[] = [];
+  private mode: PlayMode;
+  private level: number = 1;
+  private score: number = 0;
+  private clearedCoverage: number = 0; // coverage of every finished level added up
+  private tick: number = 0;
+  private gameOver: boolean = false;
+  private levels: ReadonlyArray<LevelDefinition>;
+  private levelDefinition!: LevelDefinition;
+  private difficulty: Difficulty;
+  private parameters!: LevelParameters;
+  private levelStartTime: number = 0; // ms of game time when the level's clock last started
+  private targetCoverageOverride: number | null;
+  private targetCoverage!: number;
+  private random: Random;
+  private qix: Qix[] = [];
+  private lastQixMoveTime: number = 0;
+  private sparx: Sparx[] = [];
+  private lastSparxMoveTime: number = 0;
+  private powerUps: PowerUp[] = [];
+  private lastPowerUpTime: number = 0; // ms of game time of the last spawn, or of the level start
+  private events: EventBus<GameEvents>;
+
+  constructor(options: SimulationOptions = {}) {
+    this.levels = options.levels ?? DEFAULT_LEVELS;
+    if (this.levels.length === 0) {
+      throw new Error('Simulation needs at least one level');
+    }
+    this.targetCoverageOverride = options.targetCoverage ?? null;
+    this.random = options.random ?? createRandom(options.seed ?? 0);
+    this.events = options.events ?? new EventBus();
+    this.mode = options.mode ?? 'single';
+    this.difficulty = options.difficulty ?? 'normal';
+    this.startLevel();
+  }
+
+  // Build the board and enemies for the current level, scaled by the difficulty.
+  // Lives, fuses and timers carry over from the last one; the level's clock starts again.
+  private startLevel(): void {
+    this.levelDefinition = getLevelDefinition(this.levels, this.level);
+    this.parameters = getLevelParameters(this.levelDefinition, this.level, this.difficulty);
+    this.targetCoverage = this.targetCoverageOverride ?? this.parameters.targetCoverage;
+    this.levelStartTime = this.tick * TICK_DURATION;
+    this.powerUps = [];
+    this.lastPowerUpTime = this.levelStartTime;
+    this.grid = createLevelGrid(this.levelDefinition);
+    this.players = Array.from({ length: getPlayerCount(this.mode) }, (_, index): PlayerSlot => {
+      const player = createPlayer(this.grid, this.getSpawnPoint(index));
+      const previous: PlayerSlot | undefined = this.players[index];
+      return previous
+        ? { ...previous, player }
+        : {
+            player,
+            lives: DIFFICULTY_PROFILES[this.difficulty].lives,
+            fuse: createFuse(),
+            lastMoveTime: 0,
+            lastPlayerMoveTime: 0,
+            lastFuseMoveTime: 0,
+            speedBoostUntil: 0,
+            shieldUntil: 0,
+          };
+    });
+    this.qix = Array.from({ length: this.parameters.qixCount }, () => createQix(this.grid, this.random));
+    this.sparx = createSparx(this.grid, this.parameters.sparxCount);
+  }
+
+  // Run a number of ticks, taking the input for each tick from a fixed state or a per-tick function
+  advance(ticks: number, input: TickInput | ((tick: number) => TickInput)): SimulationState {
+    for (let i = 0; i < ticks && !this.gameOver; i++) {
+      this.step(typeof input === 'function' ? input(this.tick + 1) : input);
+    }
+    return this.getState();
+  }
+
+  // Advance the game by one tick; a single input drives player 1
+  step(input: TickInput): void {
+    if (this.gameOver) {
+      return;
+    }
+
+    this.tick++;
+    this.update(this.tick * TICK_DURATION, isInputList(input) ? input : [input]);
+  }
+
+  private update(time: number, inputs: ReadonlyArray<InputState>): void {
+    this.updateQix(time);
+    if (this.gameOver) {
+      return;
+    }
+
+    this.updateSparx(time);
+    if (this.gameOver) {
+      return;
+    }
+
+    this.updateClock(time);
+    if (this.gameOver) {
+      return;
+    }
+
+    this.updatePowerUps(time);
+
+    for (let index = 0; index < this.players.length; index++) {
+      this.updateFuse(index, time);
+      if (this.gameOver) {
+        return;
+      }
+    }
+
+    // Players move in order; once a level ends, the rest wait for the next tick
+    const level = this.level;
+    for (let index = 0; index < this.players.length && !this.gameOver && this.level === level; index++) {
+      if (this.isInGame(index)) {
+        this.updatePlayer(index, time, inputs[index] ?? NO_INPUT);
+      }
+    }
+  }
+
+  private updatePlayer(index: number, time: number, input: InputState): void {
+    const slot = this.players[index];
+    const player = slot.player;
+    const slowDrawing = player.mode === PlayerMode.DRAW && player.drawSpeed === DrawSpeed.SLOW;
+    const boost = time < slot.speedBoostUntil ? SPEED_BOOST_FACTOR : 1;
+    const interval = (slowDrawing ? this.parameters.moveInterval * 2 : this.parameters.moveInterval) * boost;
+
+    if (time - slot.lastMoveTime < interval) {
+      return;
+    }
+
+    slot.lastMoveTime = getStepTime(slot.lastMoveTime, interval, time);
+
+    // Get input direction
+    const direction = getInputDirection(input);
+    if (direction === null) {
+      return;
+    }
+
+    // The other player's unfinished line is cut in versus and in the way in co-op or while shielded
+    const crossed = this.getLineOwner(index, player.x + getDX(direction), player.y + getDY(direction));
+    if (crossed !== null) {
+      if (this.mode !== 'versus' || this.isShielded(crossed)) {
+        return;
+      }
+      this.handleDeath(crossed, 'cut');
+      if (this.gameOver) {
+        return;
+      }
+    }
+
+    // Move player
+    const wasDrawing = player.mode === PlayerMode.DRAW;
+    const result = movePlayer(player, this.grid, direction, input, index);
+    if (result.moved) {
+      slot.lastPlayerMoveTime = time;
+    }
+
+    if (result.died) {
+      this.handleDeath(index, 'line');
+      return;
+    }
+
+    if (result.gameOver) {
+      this.endGame();
+      return;
+    }
+
+    if (result.moved && player.mode === PlayerMode.DRAW) {
+      const { x, y, drawSpeed: speed } = player;
+      if (!wasDrawing) {
+        this.events.emit('drawStarted', { player: index, x, y, speed });
+      }
+      this.events.emit('drawStep', { player: index, x, y, speed });
+    }
+
+    // Drawing next to a Qix is just as deadly as a Qix reaching the line
+    if (this.isLineHitByQix(index)) {
+      this.handleDeath(index, 'qix');
+      return;
+    }
+
+    // Walking into a Sparx on the edge network
+    if (this.isPlayerHitBySparx(index)) {
+      this.handleDeath(index, 'sparx');
+      return;
+    }
+
+    // Handle shape completion
+    if (result.completedShape && result.capturedPath) {
+      this.handleShapeCompletion(index, time, result.capturedPath);
+    }
+
+    // Check for level complete; the board is shared, so in co-op both players' captures count.
+    // A versus match is a single board.
+    if (this.grid.getCoverage() >= this.targetCoverage) {
+      if (this.mode === 'versus') {
+        this.endGame();
+      } else {
+        this.nextLevel();
+      }
+    }
+  }
+
+  // Index of another player whose unfinished line runs through a cell, or null
+  private getLineOwner(index: number, x: number, y: number): number | null {
+    const owner = this.grid.getOwner(x, y);
+    if (owner === null || owner === index || !this.isInGame(owner)) {
+      return null;
+    }
+    const other = this.players[owner].player;
+    return other.mode === PlayerMode.DRAW && other.linePath.some((p) => p.x === x && p.y === y) ? owner : null;
+  }
+
+  // Whether a player still has lives; players who are out stay where they died and take no part
+  private isInGame(index: number): boolean {
+    return this.players[index].lives > 0;
+  }
+
+  // Player 1 starts at the level's spawn and player 2 a quarter of the board along the same row, away from
+  // the Sparx spawns; player 2 shares the spawn when that cell is not on the edge network
+  private getSpawnPoint(index: number): Point {
+    const spawn = getSpawnPoint(this.levelDefinition);
+    if (index === 0) {
+      return spawn;
+    }
+    const width = this.grid.getWidth();
+    const x = (spawn.x + Math.floor(width / 4)) % width;
+    return this.grid.isTraversable(x, spawn.y) ? { x, y: spawn.y } : spawn;
+  }
+
+  private updateQix(time: number): void {
+    if (time - this.lastQixMoveTime < this.parameters.qixMoveInterval) {
+      return;
+    }
+
+    this.lastQixMoveTime = getStepTime(this.lastQixMoveTime, this.parameters.qixMoveInterval, time);
+
+    // Check both before and after the step so a Qix bouncing off the line still counts as contact.
+    // A Qix stops against a line it caught, but moves on past a shielded one instead of waiting it out.
+    for (const qix of this.qix) {
+      if (!this.players.some(({ player }, index) => !this.isShielded(index) && qixTouchesLine(qix, this.grid, player.linePath))) {
+        moveQix(qix, this.grid, this.random);
+      }
+    }
+
+    for (let index = 0; index < this.players.length && !this.gameOver; index++) {
+      if (this.isLineHitByQix(index)) {
+        this.handleDeath(index, 'qix');
+      }
+    }
+  }
+
+  private isLineHitByQix(index: number): boolean {
+    return this.qix.some((qix) => qixTouchesLine(qix, this.grid, this.players[index].player.linePath));
+  }
+
+  private updateSparx(time: number): void {
+    if (time - this.lastSparxMoveTime < this.parameters.sparxMoveInterval) {
+      return;
+    }
+
+    this.lastSparxMoveTime = getStepTime(this.lastSparxMoveTime, this.parameters.sparxMoveInterval, time);
+    for (const sparx of this.sparx) {
+      moveSparx(sparx, this.grid, this.random);
+    }
+
+    for (let index = 0; index < this.players.length && !this.gameOver; index++) {
+      if (this.isPlayerHitBySparx(index)) {
+        this.handleDeath(index, 'sparx');
+      }
+    }
+  }
+
+  // Sparx only patrol the edge network, so they can only catch a player who is traversing it
+  private isPlayerHitBySparx(index: number): boolean {
+    const player = this.players[index].player;
+    return this.isInGame(index) && player.mode === PlayerMode.TRAVERSE && isSparxAt(this.sparx, player.x, player.y);
+  }
+
+  // Drop the items nobody collected in time, then put a new one out every POWER_UP_INTERVAL while there is room
+  private updatePowerUps(time: number): void {
+    for (const powerUp of this.powerUps.filter((item) => isExpired(item, time))) {
+      this.events.emit('powerUpExpired', { type: powerUp.type, x: powerUp.x, y: powerUp.y });
+    }
+    this.powerUps = this.powerUps.filter((item) => !isExpired(item, time));
+
+    if (time - this.lastPowerUpTime < POWER_UP_INTERVAL) {
+      return;
+    }
+    this.lastPowerUpTime = time;
+    if (this.powerUps.length >= MAX_POWER_UPS) {
+      return;
+    }
+    const powerUp = spawnPowerUp(this.grid, this.random, time, this.qix);
+    if (powerUp) {
+      this.powerUps.push(powerUp);
+      this.events.emit('powerUpSpawned', { type: powerUp.type, x: powerUp.x, y: powerUp.y });
+    }
+  }
+
+  // Take the items a capture enclosed off the board and apply them for the player who made it
+  private collectPowerUps(index: number, time: number, collected: number[]): void {
+    const items = collected.map((itemIndex) => this.powerUps[itemIndex]);
+    this.powerUps = this.powerUps.filter((_, itemIndex) => !collected.includes(itemIndex));
+
+    const slot = this.players[index];
+    for (const powerUp of items) {
+      this.events.emit('powerUpCollected', { player: index, type: powerUp.type, x: powerUp.x, y: powerUp.y });
+      switch (powerUp.type) {
+        case 'life':
+          slot.lives++;
+          break;
+        case 'speed':
+          slot.speedBoostUntil = time + SPEED_BOOST_TIME;
+          break;
+        case 'shield':
+          slot.shieldUntil = time + SHIELD_TIME;
+          break;
+        case 'fill': {
+          const coverageBefore = this.grid.getCoverage();
+          // A free fill never earns the slow-draw payout, whatever the player last drew with
+          const fill = this.grid.fillSmallestRegion(CellType.FILLED, index, this.powerUps, this.qix);
+          this.scoreCapture(index, fill, coverageBefore, DrawSpeed.FAST);
+          this.collectPowerUps(index, time, fill.collected);
+          break;
+        }
+      }
+    }
+  }
+
+  // Invulnerable while drawing with a shield up
+  private isShielded(index: number): boolean {
+    const slot = this.players[index];
+    return slot.player.mode === PlayerMode.DRAW && this.tick * TICK_DURATION < slot.shieldUntil;
+  }
+
+  // When the level's time runs out every player still in the game loses a life and the clock starts again
+  private updateClock(time: number): void {
+    const timeLimit = this.parameters.timeLimit;
+    if (timeLimit === null || time - this.levelStartTime < timeLimit) {
+      return;
+    }
+
+    this.levelStartTime = time;
+    for (let index = 0; index < this.players.length && !this.gameOver; index++) {
+      if (this.isInGame(index)) {
+        this.handleDeath(index, 'time');
+      }
+    }
+  }
+
+  private updateFuse(index: number, time: number): void {
+    const slot = this.players[index];
+    if (slot.player.mode !== PlayerMode.DRAW) {
+      slot.fuse = createFuse();
+      return;
+    }
+
+    // The fuse only burns while the player stands still; moving again pauses it where it is
+    if (time - slot.lastPlayerMoveTime < this.parameters.fuseDelay) {
+      return;
+    }
+    if (time - slot.lastFuseMoveTime < FUSE_MOVE_INTERVAL) {
+      return;
+    }
+
+    slot.lastFuseMoveTime = time;
+    if (burnFuse(slot.fuse, slot.player.linePath)) {
+      this.handleDeath(index, 'fuse');
+    }
+  }
+
+  private handleShapeCompletion(index: number, time: number, capturedPath: Array<{ x: number; y: number }>): void {
+    // Capture the territory using flood fill; the regions the Qix are in stay open
+    const drawSpeed = this.players[index].player.drawSpeed;
+    const coverageBefore = this.grid.getCoverage();
+    const rule = getCaptureRule(this.levelDefinition);
+    const capture = this.grid.captureTerritory(capturedPath, fillCellType(drawSpeed), rule, this.qix, index, this.powerUps);
+    this.scoreCapture(index, capture, coverageBefore, drawSpeed);
+    this.collectPowerUps(index, time, capture.collected);
+  }
+
+  private scoreCapture(index: number, capture: CaptureResult, coverageBefore: number, drawSpeed: DrawSpeed): void {
+    if (capture.cellsFilled + capture.lineCells === 0) {
+      return;
+    }
+    const points = scoreCapture(capture, this.grid.getWidth() * this.grid.getHeight(), drawSpeed);
+    this.score += points;
+
+    const coverage = this.grid.getCoverage();
+    this.events.emit('shapeCaptured', {
+      player: index,
+      cells: capture.cellsFilled,
+      lineCells: capture.lineCells,
+      coverageDelta: coverage - coverageBefore,
+      coverage,
+      points,
+    });
+  }
+
+  private nextLevel(): void {
+    const coverage = this.grid.getCoverage();
+    const bonus = scoreLevelComplete(coverage, this.targetCoverage);
+    this.score += bonus;
+    this.clearedCoverage += coverage;
+    this.level++;
+    this.startLevel();
+    this.events.emit('levelCompleted', { level: this.level - 1, coverage, bonus });
+  }
+
+  private handleDeath(index: number, cause: DeathCause): void {
+    if (cause !== 'time' && this.isShielded(index)) {
+      return;
+    }
+
+    const slot = this.players[index];
+    slot.lives--;
+    this.events.emit('lifeLost', { player: index, cause, lives: slot.lives, x: slot.player.x, y: slot.player.y });
+
+    // The game goes on while anyone has lives left
+    if (this.players.every((other) => other.lives <= 0)) {
+      this.endGame();
+      return;
+    }
+
+    // Clear only the incomplete line the player was currently drawing
+    for (const point of slot.player.linePath) {
+      this.grid.setCell(point.x, point.y, CellType.EMPTY);
+    }
+
+    if (slot.lives <= 0) {
+      slot.player.linePath = [];
+      slot.player.mode = PlayerMode.TRAVERSE;
+      return;
+    }
+
+    // Reset player to their spawn point and send the Sparx back to their spawns
+    slot.player = createPlayer(this.grid, this.getSpawnPoint(index));
+    this.sparx = createSparx(this.grid, this.parameters.sparxCount);
+  }
+
+  private endGame(): void {
+    this.gameOver = true;
+    this.events.emit('gameOver', {
+      score: this.score,
+      level: this.level,
+      totalCoverage: this.getTotalCoverage(),
+      winner: this.getWinner(),
+    });
+  }
+
+  // Full state as a plain object; only simulations using the built-in seeded RNG can be saved
+  serialize(): SimulationSnapshot {
+    if (!isSeededRandom(this.random)) {
+      throw new Error('Cannot serialize a simulation that uses a custom RNG');
+    }
+
+    return structuredClone({
+      version: SNAPSHOT_VERSION,
+      tick: this.tick,
+      rngState: this.random.getState(),
+      mode: this.mode,
+      difficulty: this.difficulty,
+      level: this.level,
+      score: this.score,
+      clearedCoverage: this.clearedCoverage,
+      levels: this.levels,
+      targetCoverageOverride: this.targetCoverageOverride,
+      gameOver: this.gameOver,
+      grid: {
+        width: this.grid.getWidth(),
+        height: this.grid.getHeight(),
+        cells: this.grid.toRunLength(),
+        owners: this.grid.toOwnerRunLength(),
+      },
+      players: this.players,
+      qix: this.qix,
+      sparx: this.sparx,
+      powerUps: this.powerUps,
+      timers: {
+        lastQixMoveTime: this.lastQixMoveTime,
+        lastSparxMoveTime: this.lastSparxMoveTime,
+        levelStartTime: this.levelStartTime,
+        lastPowerUpTime: this.lastPowerUpTime,
+      },
+    });
+  }
+
+  static fromSnapshot(snapshot: SimulationSnapshot, events?: EventBus<GameEvents>): Simulation {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version: ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
+    }
+
+    const data = structuredClone(snapshot);
+    const simulation = new Simulation({
+      levels: data.levels,
+      targetCoverage: data.targetCoverageOverride ?? undefined,
+      mode: data.mode,
+      difficulty: data.difficulty,
+      events,
+    });
+    simulation.random = createRandom(data.rngState);
+    simulation.tick = data.tick;
+    simulation.level = data.level;
+    simulation.score = data.score;
+    simulation.clearedCoverage = data.clearedCoverage;
+    simulation.gameOver = data.gameOver;
+    simulation.grid = Grid.fromRunLength(data.grid.width, data.grid.height, data.grid.cells, data.grid.owners);
+    simulation.players = data.players;
+    simulation.qix = data.qix;
+    simulation.levelDefinition = getLevelDefinition(data.levels, data.level);
+    simulation.parameters = getLevelParameters(simulation.levelDefinition, data.level, data.difficulty);
+    simulation.targetCoverage = data.targetCoverageOverride ?? simulation.parameters.targetCoverage;
+    simulation.sparx = data.sparx;
+    simulation.lastQixMoveTime = data.timers.lastQixMoveTime;
+    simulation.lastSparxMoveTime = data.timers.lastSparxMoveTime;
+    simulation.levelStartTime = data.timers.levelStartTime;
+    simulation.powerUps = data.powerUps;
+    simulation.lastPowerUpTime = data.timers.lastPowerUpTime;
+    return simulation;
+  }
+
+  getState(): SimulationState {
+    return {
+      tick: this.tick,
+      grid: this.grid,
+      player: this.getPlayer(),
+      players: this.getPlayers(),
+      qix: this.qix,
+      sparx: this.sparx,
+      powerUps: this.powerUps,
+      fuse: this.getFusePosition(),
+      fuses: this.getFusePositions(),
+      level: this.level,
+      lives: this.getLives(),
+      score: this.score,
+      coverage: this.grid.getCoverage(),
+      gameOver: this.gameOver,
+    };
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  getGrid(): Grid {
+    return this.grid;
+  }
+
+  getMode(): PlayMode {
+    return this.mode;
+  }
+
+  getPlayer(index: number = 0): Player {
+    return this.players[index].player;
+  }
+
+  // Every player in order, with null for a player who is out while the other plays on
+  getPlayers(): Array<Player | null> {
+    return this.players.map((slot, index) => (this.gameOver || this.isInGame(index) ? slot.player : null));
+  }
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  getCoverage(): number {
+    return this.grid.getCoverage();
+  }
+
+  getDifficulty(): Difficulty {
+    return this.difficulty;
+  }
+
+  // What the current level plays with; the target is overridden when the simulation was given one
+  getLevelParameters(): LevelParameters {
+    return { ...this.parameters, targetCoverage: this.targetCoverage };
+  }
+
+  // ms left before the level's time runs out, or null when it has no time limit
+  getTimeLeft(): number | null {
+    const timeLimit = this.parameters.timeLimit;
+    return timeLimit === null ? null : timeLimit - (this.tick * TICK_DURATION - this.levelStartTime);
+  }
+
+  // Coverage summed over every level played, so 250 means two and a half boards' worth
+  getTotalCoverage(): number {
+    return this.clearedCoverage + this.grid.getCoverage();
+  }
+
+  getQix(): Qix[] {
+    return this.qix;
+  }
+
+  getSparx(): Sparx[] {
+    return this.sparx;
+  }
+
+  // Items waiting on the board to be collected
+  getPowerUps(): PowerUp[] {
+    return this.powerUps;
+  }
+
+  getFusePosition(index: number = 0): Point | null {
+    const slot = this.players[index];
+    return getFusePosition(slot.fuse, slot.player.linePath);
+  }
+
+  getFusePositions(): Point[] {
+    return this.players.map((_, index) => this.getFusePosition(index)).filter((fuse): fuse is Point => fuse !== null);
+  }
+
+  getLives(index: number = 0): number {
+    return this.players[index].lives;
+  }
+
+  // Percentage of the board a player has drawn or captured
+  getOwnedCoverage(index: number): number {
+    return this.grid.getOwnedCoverage(index);
+  }
+
+  // Versus: whoever owns more of the board, or null for a tie; null in other modes
+  getWinner(): number | null {
+    if (this.mode !== 'versus') {
+      return null;
+    }
+    const first = this.grid.getOwnedCoverage(0);
+    const second = this.grid.getOwnedCoverage(1);
+    return first === second ? null : first > second ? 0 : 1;
+  }
+
+  getScore(): number {
+    return this.score;
+  }
+
+  isGameOver(): boolean {
+    return this.gameOver;
+  }
+}
+
+// When a step taken at time counts as taken. Intervals that are not whole ticks would otherwise round up
+// to the next tick, so the time left over carries into the next step; up to one tick of it, so steps
+// that were not due for a while do not come in a burst.
+function getStepTime(last: number, interval: number, time: number): number {
+  return Math.max(last + interval, time - TICK_DURATION);
+}
+
+function isInputList(input: TickInput): input is ReadonlyArray<InputState> {
+  return Array.isArray(input);
+}
+
+function isSeededRandom(random: Random): random is SeededRandom {
+  return typeof (random as Partial<SeededRandom>).getState === 'function';
+}
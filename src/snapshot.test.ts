@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Simulation } from './simulation';
+import { InputState, NO_INPUT } from './input';
+import { SNAPSHOT_VERSION, decodeSnapshot, encodeSnapshot } from './snapshot';
+import { createRandom } from './random';
+
+describe('Simulation snapshots', () => {
+  const SEED = 2;
+
+  const input = (overrides: Partial<InputState>): InputState => ({ ...NO_INPUT, ...overrides });
+
+  const script = (tick: number): InputState => {
+    if (tick < 400) return input({ up: true, fastDraw: true });
+    if (tick < 700) return input({ left: true });
+    return input({ up: (tick >> 5) % 2 === 0, right: (tick >> 5) % 2 === 1, slowDraw: true });
+  };
+
+  it('should resume mid-game and play on identically', () => {
+    const original = new Simulation({ seed: SEED });
+    original.advance(600, script);
+
+    const restored = Simulation.fromSnapshot(decodeSnapshot(encodeSnapshot(original.serialize())));
+    expect(restored.getState().coverage).toBe(original.getState().coverage);
+
+    const next = (tick: number) => script(tick);
+    const a = original.advance(2000, next);
+    const b = restored.advance(2000, next);
+
+    expect(b.tick).toBe(a.tick);
+    expect(b.player).toEqual(a.player);
+    expect(b.qix).toEqual(a.qix);
+    expect(b.sparx).toEqual(a.sparx);
+    expect(b.score).toBe(a.score);
+    expect(b.lives).toBe(a.lives);
+    expect(b.grid.toRunLength()).toEqual(a.grid.toRunLength());
+  });
+
+  it('should keep every player and who owns what', () => {
+    const drawUp = input({ up: true, fastDraw: true });
+    const original = new Simulation({ seed: SEED, mode: 'versus' });
+    original.advance(100, [drawUp, drawUp]);
+
+    const restored = Simulation.fromSnapshot(decodeSnapshot(encodeSnapshot(original.serialize())));
+    const next = (tick: number) => [input({ left: tick % 60 < 30, right: tick % 60 >= 30 }), drawUp];
+    const a = original.advance(600, next);
+    const b = restored.advance(600, next);
+
+    expect(restored.getMode()).toBe('versus');
+    expect(b.players).toEqual(a.players);
+    expect(restored.getLives(1)).toBe(original.getLives(1));
+    expect(b.grid.toOwnerRunLength()).toEqual(a.grid.toOwnerRunLength());
+  });
+
+  it('should keep a 100x100 board small with run-length encoding', () => {
+    const simulation = new Simulation({ seed: SEED });
+    simulation.advance(400, input({ up: true, fastDraw: true }));
+
+    const json = encodeSnapshot(simulation.serialize());
+
+    expect(simulation.getCoverage(), 'Board should have a capture on it').toBeGreaterThan(40);
+    expect(json.length, `Snapshot is ${json.length} bytes`).toBeLessThan(6000);
+  });
+
+  it('should reject unknown or older versions', () => {
+    const snapshot = new Simulation({ seed: SEED }).serialize();
+
+    for (const version of [SNAPSHOT_VERSION - 1, SNAPSHOT_VERSION + 1]) {
+      expect(() => decodeSnapshot(JSON.stringify({ ...snapshot, version }))).toThrow(`Unsupported snapshot version: ${version}`);
+      expect(() => Simulation.fromSnapshot({ ...snapshot, version })).toThrow('Unsupported snapshot version');
+    }
+  });
+
+  it('should name the bad field in malformed snapshots', () => {
+    const snapshot = new Simulation({ seed: SEED }).serialize();
+
+    expect(() => decodeSnapshot('{')).toThrow('not valid JSON');
+    const [slot] = snapshot.players;
+    expect(() => decodeSnapshot(JSON.stringify({ ...snapshot, players: [{ ...slot, lives: 'three' }] }))).toThrow(
+      'players[0].lives must be a number',
+    );
+    expect(() => decodeSnapshot(JSON.stringify({ ...snapshot, players: [{ ...slot, player: { ...slot.player, mode: 'fly' } }] }))).toThrow(
+      'players[0].player.mode is invalid: fly',
+    );
+    expect(() => decodeSnapshot(JSON.stringify({ ...snapshot, mode: 'versus' }))).toThrow('players must list every player');
+    expect(() =>
+      decodeSnapshot(JSON.stringify({ ...snapshot, grid: { ...snapshot.grid, cells: [[9, 10000]] } })),
+    ).toThrow('grid.cells');
+    expect(() =>
+      Simulation.fromSnapshot({ ...snapshot, grid: { ...snapshot.grid, cells: [[0, 10]] } }),
+    ).toThrow('Cell runs cover 10 cells, expected 10000');
+  });
+
+  it('should refuse to serialize a custom RNG', () => {
+    const simulation = new Simulation({ random: Math.random });
+    expect(() => simulation.serialize()).toThrow('custom RNG');
+    expect(() => new Simulation({ random: createRandom(1) }).serialize()).not.toThrow();
+  });
+});
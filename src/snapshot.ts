@@ -0,0 +1,209 @@
+import { CellType, Point, MAX_OWNERS } from './grid';
+import { Player, PlayerMode, DrawSpeed, PlayMode, PLAY_MODES, getPlayerCount } from './player';
+import { Direction } from './input';
+import { Qix } from './qix';
+import { Sparx } from './sparx';
+import { Fuse } from './fuse';
+import { LevelDefinition, parseLevels } from './levels';
+import { Difficulty, DIFFICULTIES } from './difficulty';
+import { PowerUp, POWER_UP_TYPES, PowerUpType } from './powerups';
+
+export const SNAPSHOT_VERSION = 6;
+
+// One player's piece with the lives, fuse and timers that belong to it
+export interface PlayerSlot {
+  player: Player;
+  lives: number; // 0 once out of the game
+  fuse: Fuse;
+  lastMoveTime: number;
+  lastPlayerMoveTime: number;
+  lastFuseMoveTime: number;
+  speedBoostUntil: number; // ms of game time; power-ups run out then
+  shieldUntil: number;
+}
+
+// Complete, JSON-safe state of a Simulation
+export interface SimulationSnapshot {
+  version: number;
+  tick: number;
+  rngState: number;
+  mode: PlayMode;
+  difficulty: Difficulty;
+  level: number;
+  score: number;
+  clearedCoverage: number;
+  levels: ReadonlyArray<LevelDefinition>;
+  targetCoverageOverride: number | null;
+  gameOver: boolean;
+  grid: {
+    width: number;
+    height: number;
+    cells: Array<[CellType, number]>; // run-length encoded, row by row
+    owners: Array<[number, number]>; // same, 0 for nobody or the owning player's index + 1
+  };
+  players: PlayerSlot[];
+  qix: Qix[];
+  sparx: Sparx[];
+  powerUps: PowerUp[];
+  timers: {
+    lastQixMoveTime: number;
+    lastSparxMoveTime: number;
+    levelStartTime: number;
+    lastPowerUpTime: number;
+  };
+}
+
+export function encodeSnapshot(snapshot: SimulationSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+export function decodeSnapshot(json: string): SimulationSnapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Snapshot is not valid JSON');
+  }
+  return validateSnapshot(data);
+}
+
+// Check an already-parsed snapshot, throwing an error that names the first bad field
+export function validateSnapshot(data: unknown): SimulationSnapshot {
+  if (!isObject(data)) {
+    throw new Error('Snapshot must be an object');
+  }
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${String(data.version)} (expected ${SNAPSHOT_VERSION})`);
+  }
+
+  for (const field of ['tick', 'rngState', 'level', 'score', 'clearedCoverage']) {
+    requireNumber(data[field], field);
+  }
+  if (!PLAY_MODES.includes(data.mode as PlayMode)) {
+    throw new Error(`Snapshot mode is invalid: ${String(data.mode)}`);
+  }
+  if (!DIFFICULTIES.includes(data.difficulty as Difficulty)) {
+    throw new Error(`Snapshot difficulty is invalid: ${String(data.difficulty)}`);
+  }
+  if (data.targetCoverageOverride !== null) {
+    requireNumber(data.targetCoverageOverride, 'targetCoverageOverride');
+  }
+  try {
+    parseLevels(data.levels);
+  } catch (error) {
+    throw new Error(`Snapshot ${(error as Error).message}`);
+  }
+  if (typeof data.gameOver !== 'boolean') {
+    throw new Error('Snapshot gameOver must be a boolean');
+  }
+
+  validateGrid(data.grid);
+  const players = data.players;
+  if (!Array.isArray(players) || players.length !== getPlayerCount(data.mode as PlayMode)) {
+    throw new Error(`Snapshot players must list every player of a ${String(data.mode)} game`);
+  }
+  players.forEach((slot, index) => validatePlayerSlot(slot, `players[${index}]`));
+
+  const qixValid = (q: unknown): boolean =>
+    isObject(q) && isPoint(q) && typeof q.dx === 'number' && typeof q.dy === 'number' && Array.isArray(q.trail) && q.trail.every(isPoint);
+  if (!Array.isArray(data.qix) || !data.qix.every(qixValid)) {
+    throw new Error('Snapshot qix is malformed');
+  }
+
+  const sparxValid = (s: unknown): boolean =>
+    isObject(s) && isPoint(s) && isDirection(s.direction) && typeof s.clockwise === 'boolean';
+  if (!Array.isArray(data.sparx) || !data.sparx.every(sparxValid)) {
+    throw new Error('Snapshot sparx is malformed');
+  }
+
+  const powerUpValid = (p: unknown): boolean =>
+    isObject(p) && isPoint(p) && POWER_UP_TYPES.includes(p.type as PowerUpType) && typeof p.expiresAt === 'number';
+  if (!Array.isArray(data.powerUps) || !data.powerUps.every(powerUpValid)) {
+    throw new Error('Snapshot powerUps is malformed');
+  }
+
+  const timers = data.timers;
+  if (!isObject(timers)) {
+    throw new Error('Snapshot timers must be an object');
+  }
+  for (const field of ['lastQixMoveTime', 'lastSparxMoveTime', 'levelStartTime', 'lastPowerUpTime']) {
+    requireNumber(timers[field], `timers.${field}`);
+  }
+
+  return data as unknown as SimulationSnapshot;
+}
+
+function validateGrid(grid: unknown): void {
+  if (!isObject(grid)) {
+    throw new Error('Snapshot grid must be an object');
+  }
+  requireNumber(grid.width, 'grid.width');
+  requireNumber(grid.height, 'grid.height');
+
+  const cellTypes = Object.values(CellType).filter((value) => typeof value === 'number');
+  const runValid = (run: unknown): boolean =>
+    Array.isArray(run) && run.length === 2 && cellTypes.includes(run[0]) && Number.isInteger(run[1]) && run[1] > 0;
+  if (!Array.isArray(grid.cells) || !grid.cells.every(runValid)) {
+    throw new Error('Snapshot grid.cells must be [cellType, count] runs');
+  }
+  const ownerValid = (run: unknown): boolean =>
+    Array.isArray(run) &&
+    run.length === 2 &&
+    Number.isInteger(run[0]) &&
+    run[0] >= 0 &&
+    run[0] <= MAX_OWNERS &&
+    Number.isInteger(run[1]) &&
+    run[1] > 0;
+  if (!Array.isArray(grid.owners) || !grid.owners.every(ownerValid)) {
+    throw new Error('Snapshot grid.owners must be [owner, count] runs');
+  }
+}
+
+function validatePlayerSlot(slot: unknown, path: string): void {
+  if (!isObject(slot)) {
+    throw new Error(`Snapshot ${path} must be an object`);
+  }
+  for (const field of ['lives', 'lastMoveTime', 'lastPlayerMoveTime', 'lastFuseMoveTime', 'speedBoostUntil', 'shieldUntil']) {
+    requireNumber(slot[field], `${path}.${field}`);
+  }
+
+  const player = slot.player;
+  if (!isObject(player) || !isPoint(player)) {
+    throw new Error(`Snapshot ${path}.player is malformed`);
+  }
+  if (!Object.values(PlayerMode).includes(player.mode as PlayerMode)) {
+    throw new Error(`Snapshot ${path}.player.mode is invalid: ${String(player.mode)}`);
+  }
+  if (!Object.values(DrawSpeed).includes(player.drawSpeed as DrawSpeed)) {
+    throw new Error(`Snapshot ${path}.player.drawSpeed is invalid: ${String(player.drawSpeed)}`);
+  }
+  if (!isDirection(player.direction)) {
+    throw new Error(`Snapshot ${path}.player.direction is invalid`);
+  }
+  if (!Array.isArray(player.linePath) || !player.linePath.every(isPoint)) {
+    throw new Error(`Snapshot ${path}.player.linePath is malformed`);
+  }
+
+  const fuse = slot.fuse;
+  if (!isObject(fuse) || typeof fuse.lit !== 'boolean' || typeof fuse.index !== 'number') {
+    throw new Error(`Snapshot ${path}.fuse is malformed`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPoint(value: unknown): value is Point {
+  return isObject(value) && typeof value.x === 'number' && typeof value.y === 'number';
+}
+
+function isDirection(value: unknown): boolean {
+  return value === Direction.UP || value === Direction.RIGHT || value === Direction.DOWN || value === Direction.LEFT;
+}
+
+function requireNumber(value: unknown, field: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Snapshot ${field} must be a number`);
+  }
+}
@@ -0,0 +1,20 @@
+// Let the autopilot play headless games and report each level: npm run soak, or npm run soak -- <games> <seed> <difficulty>
+// Exits with an error when a game got stuck, so it can run unattended.
+import { runSoak, formatSoakReport } from './autopilot';
+import { Difficulty, DIFFICULTIES } from './difficulty';
+
+function main(): void {
+  const games = Number(process.argv[2] ?? 5);
+  const seed = Number(process.argv[3] ?? 1);
+  const difficulty = (process.argv[4] ?? 'normal') as Difficulty;
+  if (!DIFFICULTIES.includes(difficulty)) {
+    throw new Error(`Unknown difficulty: ${difficulty} (expected ${DIFFICULTIES.join(', ')})`);
+  }
+  const started = Date.now();
+  const report = runSoak({ games, seed, difficulty });
+  console.log(formatSoakReport(report));
+  console.log(`Played in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+  process.exitCode = report.stuck.length > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,129 @@
+import { Grid, Point } from './grid';
+import { Direction } from './input';
+import { getDX, getDY } from './player';
+import { Random, randomInt } from './random';
+
+export interface Sparx {
+  x: number;
+  y: number;
+  direction: Direction;
+  clockwise: boolean;
+}
+
+const JUNCTION_RANDOM_CHANCE = 0.3;
+
+const ALL_DIRECTIONS: ReadonlyArray<Direction> = [Direction.UP, Direction.RIGHT, Direction.DOWN, Direction.LEFT];
+
+// Create Sparx in clockwise/counter-clockwise pairs, each pair starting from a different border midpoint
+export function createSparx(grid: Grid, count: number): Sparx[] {
+  const width = grid.getWidth();
+  const height = grid.getHeight();
+  const spawns: Array<Point & { clockwiseDirection: Direction }> = [
+    { x: Math.floor(width / 2), y: 0, clockwiseDirection: Direction.RIGHT },
+    { x: 0, y: Math.floor(height / 2), clockwiseDirection: Direction.UP },
+    { x: width - 1, y: Math.floor(height / 2), clockwiseDirection: Direction.DOWN },
+  ];
+
+  const sparx: Sparx[] = [];
+  for (let i = 0; i < count; i++) {
+    const spawn = spawns[Math.floor(i / 2) % spawns.length];
+    const clockwise = i % 2 === 0;
+    sparx.push({
+      x: spawn.x,
+      y: spawn.y,
+      direction: clockwise ? spawn.clockwiseDirection : reverse(spawn.clockwiseDirection),
+      clockwise,
+    });
+  }
+  return sparx;
+}
+
+// Move a Sparx one step along the traversable network
+export function moveSparx(sparx: Sparx, grid: Grid, random: Random): void {
+  // A capture may have turned the current cell into interior; rejoin the network first
+  if (!grid.isTraversable(sparx.x, sparx.y)) {
+    reroute(sparx, grid);
+    return;
+  }
+
+  // Never reverse unless stuck; clockwise Sparx try right turns first, counter-clockwise ones left turns
+  const turn = sparx.clockwise ? turnRight : turnLeft;
+  const otherTurn = sparx.clockwise ? turnLeft : turnRight;
+  const candidates = [turn(sparx.direction), sparx.direction, otherTurn(sparx.direction)];
+  const options = candidates.filter((direction) => canMove(grid, sparx, direction));
+
+  let next: Direction;
+  if (options.length === 0) {
+    // Dead end: turn back
+    next = reverse(sparx.direction);
+    if (!canMove(grid, sparx, next)) {
+      return;
+    }
+  } else if (options.length > 1 && random() < JUNCTION_RANDOM_CHANCE) {
+    // Junction: occasionally take a random branch instead of the preferred one
+    next = options[randomInt(random, options.length)];
+  } else {
+    next = options[0];
+  }
+
+  sparx.direction = next;
+  sparx.x += getDX(next);
+  sparx.y += getDY(next);
+}
+
+export function isSparxAt(sparx: Sparx[], x: number, y: number): boolean {
+  return sparx.some((s) => s.x === x && s.y === y);
+}
+
+// Jump to the nearest traversable cell (breadth-first) and head along the network from there
+function reroute(sparx: Sparx, grid: Grid): void {
+  const width = grid.getWidth();
+  const visited = new Set<number>([sparx.y * width + sparx.x]);
+  const queue: Point[] = [{ x: sparx.x, y: sparx.y }];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    if (grid.isTraversable(current.x, current.y)) {
+      sparx.x = current.x;
+      sparx.y = current.y;
+      const open = ALL_DIRECTIONS.find((direction) => canMove(grid, sparx, direction));
+      if (open !== undefined) {
+        sparx.direction = open;
+      }
+      return;
+    }
+
+    for (const direction of ALL_DIRECTIONS) {
+      const x = current.x + getDX(direction);
+      const y = current.y + getDY(direction);
+      const key = y * width + x;
+      if (x < 0 || x >= width || y < 0 || y >= grid.getHeight() || visited.has(key)) {
+        continue;
+      }
+      visited.add(key);
+      queue.push({ x, y });
+    }
+  }
+}
+
+function canMove(grid: Grid, sparx: Sparx, direction: Direction): boolean {
+  const x = sparx.x + getDX(direction);
+  const y = sparx.y + getDY(direction);
+  if (x < 0 || x >= grid.getWidth() || y < 0 || y >= grid.getHeight()) {
+    return false;
+  }
+  return grid.isTraversable(x, y);
+}
+
+// Direction values run clockwise (UP, RIGHT, DOWN, LEFT)
+function turnRight(direction: Direction): Direction {
+  return (direction + 1) % 4;
+}
+
+function turnLeft(direction: Direction): Direction {
+  return (direction + 3) % 4;
+}
+
+function reverse(direction: Direction): Direction {
+  return (direction + 2) % 4;
+}
@@ -0,0 +1,31 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { StateMachine } from './states';
+
+type Light = 'red' | 'green' | 'amber';
+
+describe('StateMachine', () => {
+  const create = () => new StateMachine<Light>('red', { red: ['green'], green: ['amber'], amber: ['red'] });
+
+  it('should run exit and enter hooks in order on each transition', () => {
+    const machine = create();
+    const calls: string[] = [];
+    machine.onEnter('red', () => calls.push('enter red'));
+    machine.onExit('red', () => calls.push('exit red'));
+    machine.onEnter('green', () => calls.push('enter green'));
+
+    machine.start();
+    machine.transition('green');
+
+    expect(calls).toEqual(['enter red', 'exit red', 'enter green']);
+    expect(machine.getState()).toBe('green');
+  });
+
+  it('should refuse transitions missing from the table', () => {
+    const machine = create();
+
+    expect(machine.canTransition('amber')).toBe(false);
+    expect(() => machine.transition('amber')).toThrow('Cannot go from red to amber');
+    expect(machine.is('red'), 'State should not change on a refused transition').toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+type Hook = () => void;
+
+// Finite state machine with a fixed table of allowed transitions and enter/exit hooks per state
+export class StateMachine<S extends string> {
+  private state: S;
+  private transitions: Readonly<Record<S, ReadonlyArray<S>>>;
+  private enterHooks = new Map<S, Hook[]>();
+  private exitHooks = new Map<S, Hook[]>();
+
+  constructor(initial: S, transitions: Readonly<Record<S, ReadonlyArray<S>>>) {
+    this.state = initial;
+    this.transitions = transitions;
+  }
+
+  getState(): S {
+    return this.state;
+  }
+
+  is(state: S): boolean {
+    return this.state === state;
+  }
+
+  canTransition(to: S): boolean {
+    return this.transitions[this.state].includes(to);
+  }
+
+  onEnter(state: S, hook: Hook): void {
+    this.enterHooks.set(state, [...(this.enterHooks.get(state) ?? []), hook]);
+  }
+
+  onExit(state: S, hook: Hook): void {
+    this.exitHooks.set(state, [...(this.exitHooks.get(state) ?? []), hook]);
+  }
+
+  // Run the enter hooks of the initial state, once the hooks are registered
+  start(): void {
+    this.enterHooks.get(this.state)?.forEach((hook) => hook());
+  }
+
+  // Leave the current state for another; a state listing itself can be re-entered
+  transition(to: S): void {
+    if (!this.canTransition(to)) {
+      throw new Error(`Cannot go from ${this.state} to ${to}`);
+    }
+    this.exitHooks.get(this.state)?.forEach((hook) => hook());
+    this.state = to;
+    this.enterHooks.get(to)?.forEach((hook) => hook());
+  }
+}
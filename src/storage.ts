@@ -0,0 +1,28 @@
+// localStorage when the environment has it and allows access (private modes may throw), otherwise null
+export function getLocalStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+// The part of the Web Storage API the game uses, so tests and Node can supply their own
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Storage that lives only as long as the object, for tests and environments without localStorage
+export class MemoryStorage implements KeyValueStorage {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
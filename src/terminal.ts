@@ -0,0 +1,74 @@
+// Play in a Node terminal: npm run terminal
+// Arrow keys or WASD steer (the player keeps moving until stopped with '.'), Space toggles fast draw,
+// Z toggles slow draw, Q quits. Terminals report no key releases, hence the toggles.
+import { Simulation, GameEvents, TICK_DURATION } from './simulation';
+import { EventBus } from './events';
+import { AsciiRenderer } from './ascii';
+import { InputState, NO_INPUT } from './input';
+
+const FRAME_TIME = 50; // ms between screen updates
+const SCALE = 2; // cells per character, so a 100x100 board fits in 50 rows
+const CLEAR_SCREEN = '\u001b[2J\u001b[H';
+
+const KEYS: Record<string, Partial<InputState>> = {
+  '\u001b[A': { up: true },
+  '\u001b[B': { down: true },
+  '\u001b[C': { right: true },
+  '\u001b[D': { left: true },
+  w: { up: true },
+  s: { down: true },
+  d: { right: true },
+  a: { left: true },
+  '.': {},
+};
+
+function main(): void {
+  const events = new EventBus<GameEvents>();
+  const simulation = new Simulation({ seed: Date.now(), events });
+  const renderer = new AsciiRenderer({ scale: SCALE, write: (screen) => process.stdout.write(CLEAR_SCREEN + screen + '\n') });
+  let steer: Partial<InputState> = {};
+  let fastDraw = false;
+  let slowDraw = false;
+
+  const updateUI = () => renderer.updateUI(simulation.getCoverage(), simulation.getLevel(), [simulation.getLives()], simulation.getScore());
+  events.on('shapeCaptured', updateUI);
+  events.on('lifeLost', updateUI);
+  events.on('levelCompleted', ({ level, coverage }) => {
+    updateUI();
+    renderer.showOverlay({ type: 'levelComplete', level, coverage });
+  });
+  events.on('gameOver', ({ score }) => renderer.showOverlay({ type: 'gameOver', score, highScores: [] }));
+  updateUI();
+
+  const quit = () => {
+    clearInterval(timer);
+    process.stdin.setRawMode?.(false);
+    process.stdin.pause();
+  };
+
+  process.stdin.setRawMode?.(true);
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', (key: string) => {
+    if (key === 'q' || key === '\u0003') {
+      quit();
+    } else if (key === ' ') {
+      fastDraw = !fastDraw;
+      slowDraw = false;
+    } else if (key === 'z') {
+      slowDraw = !slowDraw;
+      fastDraw = false;
+    } else if (KEYS[key]) {
+      steer = KEYS[key];
+    }
+  });
+
+  const timer = setInterval(() => {
+    const state = simulation.advance(FRAME_TIME / TICK_DURATION, { ...NO_INPUT, ...steer, fastDraw, slowDraw });
+    renderer.render(state.grid, state.players, state.qix, state.sparx, state.fuses, state.powerUps);
+    if (state.gameOver) {
+      quit();
+    }
+  }, FRAME_TIME);
+}
+
+main();
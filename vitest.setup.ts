@@ -1,11 +1,20 @@
 import { vi } from 'vitest';
 
+// Headless suites run in the node environment and need none of the DOM setup below
+const hasDom = typeof window !== 'undefined';
+
 // Track keyboard state for testing
 const keyState = new Map<string, boolean>();
 
 // Override window.addEventListener to track keyboard events
-const originalAddEventListener = window.addEventListener;
-window.addEventListener = function(type: string, listener: any, options?: any) {
+// Wrapped listeners are remembered so removeEventListener still finds them
+const wrappedListeners = new WeakMap<object, EventListener>();
+const originalAddEventListener = hasDom ? window.addEventListener : undefined;
+const originalRemoveEventListener = hasDom ? window.removeEventListener : undefined;
+if (hasDom) window.removeEventListener = function(type: string, listener: any, options?: any) {
+  return originalRemoveEventListener!.call(this, type, wrappedListeners.get(listener) ?? listener, options);
+};
+if (hasDom) window.addEventListener = function(type: string, listener: any, options?: any) {
   if (type === 'keydown' || type === 'keyup') {
     const wrappedListener = (event: Event) => {
       const keyboardEvent = event as KeyboardEvent;
@@ -17,9 +26,10 @@ window.addEventListener = function(type: string, listener: any, options?: any) {
       }
       listener.call(this, event);
     };
-    return originalAddEventListener.call(this, type, wrappedListener, options);
+    wrappedListeners.set(listener, wrappedListener);
+    return originalAddEventListener!.call(this, type, wrappedListener, options);
   }
-  return originalAddEventListener.call(this, type, listener, options);
+  return originalAddEventListener!.call(this, type, listener, options);
 };
 
 // Setup canvas context mock
@@ -34,9 +44,10 @@ const mockContext = {
   font: '',
   textAlign: '',
   fillText: vi.fn(),
+  drawImage: vi.fn(),
 };
 
-HTMLCanvasElement.prototype.getContext = vi.fn((contextType: string) => {
+if (hasDom) HTMLCanvasElement.prototype.getContext = vi.fn((contextType: string) => {
   if (contextType === '2d') {
     return mockContext as unknown as CanvasRenderingContext2D;
   }